@@ -0,0 +1,148 @@
+import {error, WebDriver, WebElement} from "selenium-webdriver";
+import StaleElementReferenceError = error.StaleElementReferenceError;
+
+type ActionabilityCheck = 'attached' | 'displayed' | 'enabled' | 'inViewport' | 'stable' | 'receivesEvents';
+
+type ActionabilityOptions = {
+    checks?: ActionabilityCheck[]
+    stableFrames?: number
+}
+
+type PageCheckFailure = {
+    check: ActionabilityCheck
+    details: string
+}
+
+const actionabilityChecks: ActionabilityCheck[] = ['attached', 'displayed', 'enabled', 'inViewport', 'stable', 'receivesEvents'];
+
+const defaultActionability: Required<ActionabilityOptions> = {
+    checks: actionabilityChecks,
+    stableFrames: 2
+};
+
+class ActionabilityError extends Error {
+    readonly check: ActionabilityCheck;
+    readonly details: string;
+    constructor(check: ActionabilityCheck, details: string) {
+        super(`Element is not actionable, ${check} check failed: ${details}`);
+        this.name = 'ActionabilityError';
+        this.check = check;
+        this.details = details;
+    }
+}
+
+function runPageChecks(){
+    /*
+    * Runs in the browser, reports the first failed check to the callback or null when all are passed.
+    * Every frame callback is bounded so nothing keeps running after the answer is sent
+    * */
+    const [element, checks, stableFrames, done] = arguments;
+    const describe = (node: any) => node.tagName ?
+        node.tagName.toLowerCase() + (node.id ? `#${node.id}` : '') +
+        (typeof node.className === 'string' && node.className.trim() ? `.${node.className.trim().split(/\s+/).join('.')}` : '') :
+        String(node);
+    const rectOf = () => {
+        const rect = element.getBoundingClientRect();
+        return {x: rect.x, y: rect.y, width: rect.width, height: rect.height};
+    };
+    const centerOf = (rect: any) => ({x: rect.x + rect.width / 2, y: rect.y + rect.height / 2});
+    const inViewport = ({x, y}: any) => x >= 0 && y >= 0 && x <= window.innerWidth && y <= window.innerHeight;
+    const nextFrame = (callback: () => void) => {
+        let called = false;
+        const once = () => {
+            if (called) return;
+            called = true;
+            clearTimeout(fallback);
+            callback();
+        };
+        /* background tabs may not render frames at all */
+        const fallback = setTimeout(once, 100);
+        requestAnimationFrame(once);
+    };
+    if (checks.includes('attached') && !element.isConnected){
+        return done({check: 'attached', details: 'element is detached from the document'});
+    }
+    if (checks.includes('inViewport') && !inViewport(centerOf(rectOf()))){
+        element.scrollIntoView({block: 'center', inline: 'center'});
+        const rect = rectOf();
+        if (!inViewport(centerOf(rect))){
+            return done({check: 'inViewport', details: `element center is out of viewport after scroll, rect: ${JSON.stringify(rect)}`});
+        }
+    }
+    const hitTest = () => {
+        if (!checks.includes('receivesEvents')){
+            return done(null);
+        }
+        const {x, y} = centerOf(rectOf());
+        let hit: any = document.elementFromPoint(x, y);
+        while (hit && hit.shadowRoot){
+            const inner = hit.shadowRoot.elementFromPoint(x, y);
+            if (!inner || inner === hit) break;
+            hit = inner;
+        }
+        let node = hit;
+        while (node && node !== element){
+            node = node.parentNode || node.host;
+        }
+        if (node === element){
+            return done(null);
+        }
+        done({check: 'receivesEvents', details: `element is covered by ${hit ? describe(hit) : 'nothing'} at (${Math.round(x)}, ${Math.round(y)})`});
+    };
+    if (!checks.includes('stable')){
+        return hitTest();
+    }
+    let previous = rectOf();
+    let frame = 0;
+    const compare = () => {
+        const current = rectOf();
+        if (current.x !== previous.x || current.y !== previous.y ||
+            current.width !== previous.width || current.height !== previous.height){
+            return done({check: 'stable', details: `element moved from ${JSON.stringify(previous)} to ${JSON.stringify(current)}`});
+        }
+        previous = current;
+        if (++frame < stableFrames){
+            return nextFrame(compare);
+        }
+        hitTest();
+    };
+    nextFrame(compare);
+}
+
+async function checkActionability(webDriver: WebDriver, webElement: WebElement,
+                                  {checks = defaultActionability.checks, stableFrames = defaultActionability.stableFrames}: ActionabilityOptions = {}){
+    /*
+    * Throws ActionabilityError naming the first failed check,
+    * the error is retriable so callers repeat the whole pipeline until timeout
+    * */
+    try {
+        if (checks.includes('displayed') && !await webElement.isDisplayed()){
+            throw new ActionabilityError('displayed', 'element is not displayed');
+        }
+        if (checks.includes('enabled') && !await webElement.isEnabled()){
+            throw new ActionabilityError('enabled', 'element is disabled');
+        }
+        const pageChecks = checks.filter(check => check !== 'displayed' && check !== 'enabled');
+        if (!pageChecks.length){
+            return;
+        }
+        const failure = await webDriver.executeAsyncScript<PageCheckFailure | null>(runPageChecks, webElement, pageChecks, stableFrames);
+        if (failure){
+            throw new ActionabilityError(failure.check, failure.details);
+        }
+    } catch (e) {
+        if (e instanceof StaleElementReferenceError && checks.includes('attached')){
+            throw new ActionabilityError('attached', `element is detached from the document (${e.message})`);
+        }
+        throw e;
+    }
+}
+
+export {
+    ActionabilityCheck,
+    ActionabilityOptions,
+    ActionabilityError,
+    actionabilityChecks,
+    defaultActionability,
+    checkActionability
+}
@@ -0,0 +1,66 @@
+import {promises as fs} from "fs";
+import * as path from "path";
+import {WebDriver, WebElement} from "selenium-webdriver";
+
+type FailureArtifacts = {
+    directory: string
+    screenshot?: string
+    elementScreenshot?: string
+    pageSource?: string
+    url?: string
+    consoleLog?: string
+}
+
+type ArtifactTarget = {
+    getElement(): Promise<WebElement>
+}
+
+class ArtifactCollector {
+    readonly directory: string;
+    constructor(directory: string) {
+        this.directory = directory;
+    }
+    private async write(directory: string, fileName: string, data: string, encoding: 'utf8' | 'base64' = 'utf8'){
+        const filePath = path.join(directory, fileName);
+        await fs.writeFile(filePath, data, encoding);
+        return filePath;
+    }
+    private async capture(capture: () => Promise<string>): Promise<string | undefined>{
+        /*
+        * Every artifact is optional, failing to get one must not hide the original error
+        * */
+        try {
+            return await capture();
+        } catch (e) {
+            return undefined;
+        }
+    }
+    async collect(webDriver: WebDriver, call: string, target?: ArtifactTarget): Promise<FailureArtifacts>{
+        const name = `${+new Date()}-${call.replace(/[^\w.-]+/g, '_')}`;
+        const directory = path.join(this.directory, name);
+        await fs.mkdir(directory, {recursive: true});
+        const artifacts: FailureArtifacts = {directory};
+        artifacts.screenshot = await this.capture(async () =>
+            this.write(directory, 'screenshot.png', await webDriver.takeScreenshot(), 'base64'));
+        if (target){
+            artifacts.elementScreenshot = await this.capture(async () =>
+                this.write(directory, 'element.png', await (await target.getElement()).takeScreenshot(), 'base64'));
+        }
+        artifacts.pageSource = await this.capture(async () =>
+            this.write(directory, 'page.html', await webDriver.getPageSource()));
+        artifacts.url = await this.capture(async () =>
+            this.write(directory, 'url.txt', await webDriver.getCurrentUrl()));
+        artifacts.consoleLog = await this.capture(async () => {
+            const entries = await webDriver.manage().logs().get('browser');
+            const lines = entries.map(entry => `${new Date(entry.timestamp).toISOString()} ${entry.level.name} ${entry.message}`);
+            return this.write(directory, 'console.log', lines.join('\n'));
+        });
+        return artifacts;
+    }
+}
+
+export {
+    ArtifactCollector,
+    ArtifactTarget,
+    FailureArtifacts
+}
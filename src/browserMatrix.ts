@@ -0,0 +1,71 @@
+import {Config} from "./config";
+import {BrowsersAliases} from "./driversCapabilities";
+import {Driver, withDefaultDriver} from "./driver";
+
+type BrowserRunBody = (driver: Driver, browser: BrowsersAliases) => Promise<void>;
+
+type BrowserMatrixOptions = {
+    browsers?: BrowsersAliases[]
+    concurrency?: number
+}
+
+type BrowserRunResult = {
+    browser: BrowsersAliases
+    passed: boolean
+    duration: number
+    error?: any
+}
+
+async function runInBrowser(browser: BrowsersAliases, body: BrowserRunBody): Promise<BrowserRunResult>{
+    const webDriver = new Driver(browser);
+    const startTime = +new Date();
+    try {
+        await withDefaultDriver(webDriver, () => body(webDriver, browser));
+        return {browser, passed: true, duration: (+new Date()) - startTime};
+    } catch (e) {
+        return {browser, passed: false, duration: (+new Date()) - startTime, error: e};
+    } finally {
+        /* a crashed session must not break the rest of the matrix */
+        await webDriver.quit().catch(() => undefined);
+    }
+}
+
+async function runInBrowsers(body: BrowserRunBody,
+                             {browsers = Config.browsers, concurrency = 1}: BrowserMatrixOptions = {}): Promise<BrowserRunResult[]>{
+    /*
+    * Runs body once per browser with its own driver session,
+    * $, xpath, element, $$ called inside body are bound to the run driver
+    * */
+    const results: BrowserRunResult[] = new Array(browsers.length);
+    let nextIndex = 0;
+    async function worker(){
+        while (nextIndex < browsers.length){
+            const index = nextIndex++;
+            results[index] = await runInBrowser(browsers[index], body);
+        }
+    }
+    const workers = [];
+    for (let i = 0; i < Math.min(Math.max(concurrency, 1), browsers.length); i++){
+        workers.push(worker());
+    }
+    await Promise.all(workers);
+    return results;
+}
+
+function formatBrowserMatrixReport(results: BrowserRunResult[]): string{
+    return results
+        .map(({browser, passed, duration, error}) => {
+            const status = passed ? 'PASSED' : 'FAILED';
+            const line = `${browser.padEnd(8)} ${status} ${duration}ms`;
+            return passed ? line : `${line}\n    ${error?.message || error}`;
+        })
+        .join('\n');
+}
+
+export {
+    runInBrowsers,
+    formatBrowserMatrixReport,
+    BrowserRunBody,
+    BrowserMatrixOptions,
+    BrowserRunResult
+}
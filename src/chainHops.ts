@@ -0,0 +1,67 @@
+import {By, error, Locator, WebDriver, WebElement} from "selenium-webdriver";
+import InvalidSelectorError = error.InvalidSelectorError;
+import NoSuchElementError = error.NoSuchElementError;
+
+class FrameHop {
+    /*
+    * Switches into the iframe found by locator, next steps are searched in the frame document
+    * */
+    readonly locator: Locator;
+    constructor(locator: Locator) {
+        this.locator = locator;
+    }
+    toString(){
+        return `frame(${this.locator})`;
+    }
+}
+
+class ShadowHop {
+    /*
+    * Next step is searched inside the open shadow root of the previous element
+    * */
+    toString(){
+        return 'shadow()';
+    }
+}
+
+type ChainStep = Locator | FrameHop | ShadowHop;
+
+function isHop(step: ChainStep | undefined): step is FrameHop | ShadowHop{
+    return step instanceof FrameHop || step instanceof ShadowHop;
+}
+
+function getShadowSelector(locator: Locator): string{
+    if (locator instanceof By && locator.using === 'css selector'){
+        return locator.value;
+    }
+    throw new InvalidSelectorError(`Only css locators are supported inside shadow root, got: ${locator}`);
+}
+
+async function findInShadowRoot(webDriver: WebDriver, host: WebElement, locator: Locator): Promise<WebElement>{
+    const webElement = await webDriver.executeScript<WebElement | null>(
+        'return arguments[0].shadowRoot && arguments[0].shadowRoot.querySelector(arguments[1]);',
+        host, getShadowSelector(locator));
+    if (!webElement){
+        throw new NoSuchElementError(`Unable to locate element inside shadow root: ${locator}`);
+    }
+    return webElement;
+}
+
+async function findAllInShadowRoot(webDriver: WebDriver, host: WebElement, locator: Locator): Promise<WebElement[]>{
+    const webElements = await webDriver.executeScript<WebElement[] | null>(
+        'return arguments[0].shadowRoot ? Array.from(arguments[0].shadowRoot.querySelectorAll(arguments[1])) : null;',
+        host, getShadowSelector(locator));
+    if (!webElements){
+        throw new NoSuchElementError(`Element has no open shadow root`);
+    }
+    return webElements;
+}
+
+export {
+    FrameHop,
+    ShadowHop,
+    ChainStep,
+    isHop,
+    findInShadowRoot,
+    findAllInShadowRoot
+}
@@ -1,52 +1,225 @@
 import parse from 'yargs-parser';
 import config from 'config';
-import {BrowsersAliases} from "./driversCapabilities";
+import * as path from "path";
+import {browserArgs, BrowsersAliases, capabilitiesOverrides} from "./driversCapabilities";
+
+/*
+* Every key is resolved from these layers, the first one which has the key wins:
+*   1. command line flag: --seleniumHubUrl=... or --selenium-hub-url=...
+*   2. environment variable: WDRW_SELENIUM_HUB_URL=...
+*   3. selected profile: "profiles": {"ci": {...}} section of config, chosen by --profile=ci or WDRW_PROFILE=ci
+*   4. config files and NODE_CONFIG env param handled by node-config
+* Lists can be passed as comma separated values, objects as JSON.
+* */
+
+type ConfigValueType = 'string' | 'boolean' | 'list' | 'json';
+
+const configSchema = {
+    browser: 'string',
+    browsers: 'list',
+    directConnect: 'boolean',
+    seleniumHubUrl: 'string',
+    webDriverProxy: 'string',
+    capabilities: 'json',
+    headless: 'boolean',
+    browserArgs: 'json',
+    printConfig: 'boolean',
+    artifactsDir: 'string',
+    traceDir: 'string',
+    flakinessReportDir: 'string',
+    sessionScope: 'string',
+    baselineDir: 'string',
+    updateBaselines: 'boolean',
+    recoverSessions: 'boolean',
+    storageState: 'string'
+};
+
+type ConfigKey = keyof typeof configSchema;
+
+type SessionScope = 'file' | 'test';
+
+type ConfigSource = 'cli' | 'env' | 'profile' | 'config';
+
+type ResolvedConfigValue = {
+    value: any
+    source: ConfigSource
+}
+
+class ConfigError extends Error {
+    readonly key: string;
+    constructor(key: string, message: string) {
+        super(message);
+        this.name = 'ConfigError';
+        this.key = key;
+    }
+}
+
+function toEnvName(key: string){
+    return 'WDRW_' + key.replace(/([a-z])([A-Z])/g, '$1_$2').toUpperCase();
+}
+
+function coerce(key: string, value: any, type: ConfigValueType, source: ConfigSource){
+    /*
+    * Values from files keep their types, cli and env ones arrive as strings
+    * */
+    if (source === 'config' || source === 'profile'){
+        return value;
+    }
+    switch (type) {
+        case "boolean":
+            if (value === true || value === 'true') return true;
+            if (value === false || value === 'false') return false;
+            throw new ConfigError(key, `${key} must be true or false, got: ${value}`);
+        case "list":
+            if (Array.isArray(value)) return value.map(String);
+            return String(value).split(',').map(item => item.trim()).filter(item => item);
+        case "json":
+            try {
+                return JSON.parse(String(value));
+            } catch (e) {
+                throw new ConfigError(key, `${key} must be a valid JSON, got: ${value}`);
+            }
+        default:
+            return String(value);
+    }
+}
 
 export class Config {
+    private static get argv(){
+        return parse(process.argv.slice(2));
+    }
+    static get profile(): string | null{
+        const profile = Config.argv.profile || process.env.WDRW_PROFILE || null;
+        if (profile && !config.has(`profiles.${profile}`)){
+            throw new ConfigError('profile', `Profile ${profile} is not found, please add "profiles": {"${profile}": {...}} to config`);
+        }
+        return profile;
+    }
+    static lookup(key: ConfigKey): ResolvedConfigValue | undefined{
+        const type = configSchema[key] as ConfigValueType;
+        const argv = Config.argv;
+        const envName = toEnvName(key);
+        const profile = Config.profile;
+        if (argv[key] !== undefined){
+            return {value: coerce(key, argv[key], type, 'cli'), source: 'cli'};
+        }
+        if (process.env[envName] !== undefined){
+            return {value: coerce(key, process.env[envName], type, 'env'), source: 'env'};
+        }
+        if (profile && config.has(`profiles.${profile}.${key}`)){
+            return {value: config.get(`profiles.${profile}.${key}`), source: 'profile'};
+        }
+        if (config.has(key)){
+            return {value: config.get(key), source: 'config'};
+        }
+    }
+    private static value<T>(key: ConfigKey, defaultValue: T): T{
+        const resolved = Config.lookup(key);
+        return resolved ? resolved.value : defaultValue;
+    }
     static get browser():BrowsersAliases {
-        const argv = parse(process.argv.slice(2));
-        if (!argv.browser && !config.has('browser')){
-            console.error(`Browser name dos not set please add: NODE_CONFIG={"browser":[chrome | firefox | ...]} as env param or --browser=[chrome | firefox | ...] for npm -- --browser=`);
-            process.exit(1);
+        const browser = Config.value<string | null>('browser', null);
+        if (!browser){
+            throw new ConfigError('browser', `Browser name is not set please add: NODE_CONFIG={"browser":[chrome | firefox | ...]} as env param or --browser=[chrome | firefox | ...] for npm -- --browser=`);
         }
-        const browser = argv.browser || config.get<string>('browser');
         if (!(browser in BrowsersAliases)){
-            console.error(`Browser name is incorrect please use one of these:`, BrowsersAliases);
-            process.exit(1);
+            throw new ConfigError('browser', `Browser name ${browser} is incorrect please use one of these: ${Object.keys(BrowsersAliases)}`);
         }
         return browser as BrowsersAliases;
     }
     static get browsers():BrowsersAliases[]{
-        if (!config.has('browsers')){
-            console.error(`Browsers dos not set please add: NODE_CONFIG={"browsers":[chrome, firefox, ...]} as env param`);
-            process.exit(1);
+        const browsers = Config.value<string[] | null>('browsers', null);
+        if (!browsers){
+            throw new ConfigError('browsers', `Browsers are not set please add: NODE_CONFIG={"browsers":[chrome, firefox, ...]} as env param or --browsers=chrome,firefox`);
         }
-        const browsers: string[] = config.get<string[]>('browsers');
         browsers.forEach(browser =>{
             if (!(browser in BrowsersAliases)){
-                console.error(`Browser name is incorrect please use these values:`, BrowsersAliases);
-                process.exit(1);
+                throw new ConfigError('browsers', `Browser name ${browser} is incorrect please use these values: ${Object.keys(BrowsersAliases)}`);
             }
         });
         return browsers as BrowsersAliases[];
     }
     static get directConnect(): boolean{
-        if (!config.has('directConnect')){
-            return false;
-        }
-        return config.get<boolean>('directConnect');
+        return Config.value('directConnect', false);
     }
     static get seleniumHubUrl(): string{
         if (Config.directConnect){
             return ''
         }
-        return config.get<string>('seleniumHubUrl');
+        const seleniumHubUrl = Config.value<string | null>('seleniumHubUrl', null);
+        if (!seleniumHubUrl){
+            throw new ConfigError('seleniumHubUrl', `Selenium hub url is not set please add: --seleniumHubUrl=http://host:4444/wd/hub or set "directConnect": true`);
+        }
+        return seleniumHubUrl;
     }
     static get webDriverProxy(){
-        if (!config.has('webDriverProxy')){
-            return '';
+        return Config.value('webDriverProxy', '');
+    }
+    static get capabilities(): capabilitiesOverrides{
+        return Config.value<capabilitiesOverrides>('capabilities', {});
+    }
+    static get headless(): boolean{
+        return Config.value('headless', false);
+    }
+    static get browserArgs(): browserArgs{
+        return Config.value<browserArgs>('browserArgs', []);
+    }
+    static get printConfig(): boolean{
+        return Config.value('printConfig', false);
+    }
+    static get artifactsDir(): string{
+        return Config.value('artifactsDir', '');
+    }
+    static get traceDir(): string{
+        return Config.value('traceDir', '');
+    }
+    static get flakinessReportDir(): string{
+        return Config.value('flakinessReportDir', '');
+    }
+    static get sessionScope(): SessionScope{
+        const sessionScope = Config.value<string>('sessionScope', 'file');
+        if (sessionScope !== 'file' && sessionScope !== 'test'){
+            throw new ConfigError('sessionScope', `sessionScope must be file or test, got: ${sessionScope}`);
         }
-        return config.get<string>('webDriverProxy');
+        return sessionScope;
+    }
+    static get baselineDir(): string{
+        return Config.value('baselineDir', path.join('screenshots', 'baseline'));
+    }
+    static get updateBaselines(): boolean{
+        return Config.value('updateBaselines', false);
+    }
+    static get recoverSessions(): boolean{
+        return Config.value('recoverSessions', false);
+    }
+    static get storageState(): string{
+        return Config.value('storageState', '');
+    }
+    static resolve(): {[key: string]: ResolvedConfigValue}{
+        /*
+        * Effective values of every key which is set on any layer
+        * */
+        const resolved: {[key: string]: ResolvedConfigValue} = {};
+        for (const key of Object.keys(configSchema) as ConfigKey[]){
+            const value = Config.lookup(key);
+            if (value){
+                resolved[key] = value;
+            }
+        }
+        return resolved;
+    }
+    static describe(): string{
+        const profile = Config.profile;
+        const lines = Object.entries(Config.resolve())
+            .map(([key, {value, source}]) => `  ${key} = ${JSON.stringify(value)} (${source})`);
+        return [`Effective config${profile ? ` (profile ${profile})` : ''}:`, ...lines].join('\n');
     }
 }
 
+export {
+    ConfigError,
+    ConfigKey,
+    ConfigSource,
+    ResolvedConfigValue,
+    SessionScope
+}
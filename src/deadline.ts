@@ -0,0 +1,101 @@
+import {error} from "selenium-webdriver";
+import TimeoutError = error.TimeoutError;
+import {AsyncLocalStorage} from "async_hooks";
+
+/*
+* Structural AbortSignal, any AbortController of node or polyfills fits
+* */
+type AbortSignalLike = {
+    readonly aborted: boolean
+    addEventListener?(type: 'abort', listener: () => void): void
+    removeEventListener?(type: 'abort', listener: () => void): void
+};
+
+type DeadlineOptions = {
+    timeout?: number
+    signal?: AbortSignalLike
+};
+
+type DeadlineStopReason = 'deadline' | 'aborted';
+
+class DeadlineExceededError extends TimeoutError {
+    readonly reason: DeadlineStopReason;
+    constructor(reason: DeadlineStopReason) {
+        super(reason === 'aborted' ? 'Retry aborted by signal' : 'Shared deadline exceeded');
+        this.reason = reason;
+    }
+}
+
+class Deadline {
+    /*
+    * Time budget and abort signal shared by every retry started inside it,
+    * a nested deadline never outlives its parent
+    * */
+    readonly expiresAt: number;
+    constructor(timeout = Infinity, readonly signal?: AbortSignalLike, readonly parent?: Deadline) {
+        const expiresAt = (+new Date()) + timeout;
+        this.expiresAt = parent ? Math.min(parent.expiresAt, expiresAt) : expiresAt;
+    }
+    get remaining(){
+        return this.expiresAt - (+new Date());
+    }
+    get aborted(): boolean{
+        return this.signals.some(signal => signal.aborted);
+    }
+    get stopReason(): DeadlineStopReason | null{
+        if (this.aborted){
+            return 'aborted';
+        }
+        return this.remaining < 0 ? 'deadline' : null;
+    }
+    private get signals(): AbortSignalLike[]{
+        const signals = this.parent ? this.parent.signals : [];
+        return this.signal ? [...signals, this.signal] : signals;
+    }
+    sleep(ms: number){
+        /*
+        * Pause between attempts which ends early on abort
+        * */
+        const signals = this.signals;
+        return new Promise<void>(resolve => {
+            const wakeUp = () => {
+                clearTimeout(timer);
+                signals.forEach(signal => signal.removeEventListener?.('abort', wakeUp));
+                resolve();
+            };
+            const timer = setTimeout(wakeUp, Math.max(Math.min(ms, this.remaining), 0));
+            signals.forEach(signal => signal.addEventListener?.('abort', wakeUp));
+        });
+    }
+}
+
+const storage = new AsyncLocalStorage<Deadline>();
+
+function currentDeadline(): Deadline | undefined{
+    return storage.getStore();
+}
+
+function runWithDeadline<T>(deadline: Deadline, callback: () => Promise<T>): Promise<T>{
+    return storage.run(deadline, callback);
+}
+
+async function withDeadline<T>(options: number | DeadlineOptions, callback: () => Promise<T>): Promise<T>{
+    /*
+    * Every retry started inside callback, however deep, stops once timeout is spent or signal aborts:
+    *   await withDeadline(10000, () => $('#save').click());
+    * Commands already sent to the browser are not interrupted, retries stop before the next attempt
+    * */
+    const {timeout, signal} = typeof options === 'number' ? {timeout: options, signal: undefined} : options;
+    return runWithDeadline(new Deadline(timeout, signal, currentDeadline()), callback);
+}
+
+export {
+    AbortSignalLike,
+    Deadline,
+    DeadlineExceededError,
+    DeadlineOptions,
+    DeadlineStopReason,
+    currentDeadline,
+    runWithDeadline,
+    withDeadline
+}
@@ -5,39 +5,96 @@ import {
     ILocation,
     IRectangle,
     ISize,
+    Key,
     Locator,
+    TargetLocator,
     ThenableWebDriver, WebDriver,
     WebElement,
 } from "selenium-webdriver";
 import NoSuchElementError = error.NoSuchElementError;
 import {Config} from "./config";
-import {capabilities} from "./driversCapabilities";
+import {BrowsersAliases, resolveCapabilities} from "./driversCapabilities";
 import * as assert from "assert";
-import InvalidSelectorError = error.InvalidSelectorError;
+import {inspect} from "util";
 import StaleElementReferenceError = error.StaleElementReferenceError;
-
-enum TimeConstants  {
-    /* milliseconds*/
-    Zero = 0,
-    QuaterASecond = 250,
-    HalfASecond = 500,
-    TwoSeconds = 2000,
-    FiveSeconds = 5000,
-    TenSeconds = 10000,
-    HalfAMinute= 30000,
-    QuarterAMinute = 15000,
-    Minute = 60000
-}
+import InvalidSelectorError = error.InvalidSelectorError;
+import NoSuchWindowError = error.NoSuchWindowError;
+import {ArtifactCollector, ArtifactTarget} from "./artifacts";
+import {DriverEvents, TraceReporter} from "./events";
+import {runFlakinessStats} from "./flakinessStats";
+import {currentSoftScope} from "./softAssertions";
+import {ChainStep, findAllInShadowRoot, findInShadowRoot, FrameHop, isHop, ShadowHop} from "./chainHops";
+import {ActionabilityCheck, ActionabilityOptions, checkActionability, defaultActionability} from "./actionability";
+import {
+    defaultPageReadyOptions,
+    getPageReadyState,
+    PageNotReadyError,
+    PageReadyOptions,
+    PageReadyState,
+    toPredicateSource
+} from "./pageReadiness";
+import {DropdownAdapter, SelectElement} from "./select";
+import {Table, TableOptions} from "./table";
+import {
+    captureSessionState,
+    isSessionLostError,
+    restoreSessionState,
+    SessionLostError,
+    SessionState
+} from "./sessionRecovery";
+import {
+    cookieMatchesOrigin,
+    mergeCookies,
+    OriginStorage,
+    readStorageState,
+    readStorageStateFile,
+    StorageStateError,
+    writeStorageState,
+    writeStorageStateFile
+} from "./storageState";
+import {rebuildFailure, retryDetails} from "./failureMessages";
+import {DeadlineExceededError, withDeadline} from "./deadline";
+import {AsyncLocalStorage} from "async_hooks";
+import {ScreenshotComparison, ScreenshotOptions} from "./visualRegression";
+import {
+    RetryAttempts,
+    RetryObserver,
+    RetryOptions,
+    RetryPending,
+    RetryPolicy,
+    RetryPolicyOptions,
+    SessionGuard,
+    TimeConstants,
+    timeoutCondition
+} from "./retryPolicy";
 
 type expectOptions = {
     message?: string | null
     timeout?: number
+    /* kept for compatibility, the last assertion error is always reported */
     concatenateMessages?: boolean
+    action?: string
+    retryPolicy?: RetryPolicy
+    onFailure?: (error: any) => Promise<any>
+    observer?: RetryObserver
+    /* recovers a session lost while getting the actual value */
+    sessionGuard?: SessionGuard
+    target?: string
+}
+
+/*
+* Window index in handles order or its title and url, strings match as substrings
+* */
+type WindowMatcher = number | {
+    title?: string | RegExp
+    url?: string | RegExp
 }
 
-function timeoutCondition(timeoutMs: number = TimeConstants.QuarterAMinute){
-    const dt = +new Date();
-    return ()=> (+new Date()) - dt <= timeoutMs;
+function matchesText(actual: string, expected: string | RegExp | undefined){
+    if (expected === undefined){
+        return true;
+    }
+    return expected instanceof RegExp ? expected.test(actual) : actual.includes(expected);
 }
 
 function getCleanStack(stack: string | undefined){
@@ -49,103 +106,669 @@ function getCleanStack(stack: string | undefined){
     }
 }
 
-async function retryExpect<T>(foo: ()=>Promise<T>, expected: T,
-                               {message = null, concatenateMessages= false,
-                                   timeout}: expectOptions): Promise<void> {
+function expectationMessage(failMessage: string | undefined, expectation: string){
+    return failMessage ? `${failMessage}\n${expectation}` : expectation;
+}
+
+function failExpectation(error: any, target?: string){
+    /*
+    * Inside softly scope failed expectation is recorded instead of thrown
+    * */
+    const softScope = currentSoftScope();
+    if (!softScope){
+        throw error;
+    }
+    softScope.record(error, target);
+}
+
+async function retryExpect<T>(foo: ()=>Promise<T>, expected: T, options: expectOptions): Promise<void> {
+    return retryAssert(foo, actual => assert.deepStrictEqual(actual, expected), options);
+}
+
+async function retryAssert<T>(foo: ()=>Promise<T>, assertion: (actual: T) => void,
+                               {message = null, action = 'retryAssert',
+                                   timeout, retryPolicy = RetryPolicy.default,
+                                   onFailure, observer, sessionGuard, target}: expectOptions): Promise<void> {
+    /*
+    * Retries until assertion stops throwing AssertionError
+    * */
     let exception;
-    const retryTimeoutCondition = timeoutCondition(timeout);
-    while (retryTimeoutCondition()){
-        const actual = await foo();
+    const retry = retryPolicy.with(timeout).start(observer, sessionGuard);
+    while (await retry.next()){
+        let actual;
         try {
-            assert.deepStrictEqual(actual, expected);
-            return;
+            actual = await retry.within(foo);
+        } catch (e) {
+            /*
+            * Nested retries get what is left of the timeout, on the last attempt it may be nothing.
+            * next() then ends the loop, noting an enclosing deadline or signal, and the previous assertion failure is reported
+            * */
+            if (e instanceof DeadlineExceededError && exception){
+                continue;
+            }
+            /* next() recovers the session or throws SessionLostError */
+            if (retry.isSessionLost(e)){
+                continue;
+            }
+            return failExpectation(retry.fail(e), target);
+        }
+        try {
+            assertion(actual);
+            return retry.done();
         } catch (e) {
             exception = e;
+            retry.failed(e);
         }
     }
-    throw new assert.AssertionError(Object.assign({}, exception,
-        {stackStartFn: retryExpect,
-            message: message ? concatenateMessages ? [message, exception.message].join('\n'): message : exception.message
-        }));
+    const assertionError = rebuildFailure(new assert.AssertionError(Object.assign({}, exception, {stackStartFn: retryAssert})),
+        {action, target, message, ...retryDetails(retry)}, exception);
+    return failExpectation(retry.fail(onFailure ? await onFailure(assertionError) : assertionError), target);
+}
+
+/* typing goes to the focused element, so overlays and animations do not break it */
+const keyboardSkippedChecks: ActionabilityCheck[] = ['stable', 'receivesEvents'];
+
+type Keys = Array<string | number | Promise<string | number>>;
+
+function splitKeys(args: Array<string | number | Promise<string | number> | RetryPolicy | RetryPolicyOptions>): [Keys, RetryOptions | undefined]{
+    /*
+    * Keys are strings, numbers or their promises, so a trailing object is the retry policy of the call
+    * */
+    const last = args[args.length - 1];
+    if (last instanceof RetryPolicy || (typeof last === 'object' && !(last instanceof Promise))){
+        return [args.slice(0, -1) as Keys, last];
+    }
+    return [args as Keys, undefined];
+}
+
+function topDocumentTargetLocator(webDriver: Driver): TargetLocator{
+    /*
+    * Switches start from the top document, the frame entered by an element hop is left first
+    * */
+    const targetLocator = webDriver.driver.switchTo();
+    const fromTop = <A extends any[]>(switchTo: (...args: A) => Promise<void>) => async (...args: A) => {
+        await webDriver.restoreFrameContext();
+        return switchTo.apply(targetLocator, args);
+    };
+    return Object.assign(Object.create(targetLocator), {
+        defaultContent: fromTop(targetLocator.defaultContent),
+        frame: fromTop(targetLocator.frame),
+        parentFrame: fromTop(targetLocator.parentFrame),
+        window: fromTop(targetLocator.window),
+        newWindow: fromTop(targetLocator.newWindow)
+    });
 }
 
 class Driver {
     private _driver: ThenableWebDriver | null = null;
     private _capabilities: Capabilities | null = null;
+    private _retryPolicy: RetryPolicyOptions | null = null;
+    private _artifactCollector: ArtifactCollector | null | undefined = undefined;
+    private _actionability: ActionabilityOptions | null = null;
+    private _autoPageReady: PageReadyOptions | null = null;
+    private _reportersAttached = false;
+    private _inFrame = false;
+    private _windowsHistory: string[] = [];
+    private _recoverSessions: boolean | null = null;
+    private _sessionState: SessionState | null = null;
+    private _sessionGeneration = 0;
+    private _sessionEstablished = false;
+    private _recovering: Promise<void> | null = null;
+    private _storagePreload: Promise<void> | null = null;
+    private readonly _browser: BrowsersAliases | null;
+    readonly events = new DriverEvents();
+    constructor(browser?: BrowsersAliases) {
+        this._browser = browser || null;
+    }
+    get browser(): BrowsersAliases{
+        return this._browser || Config.browser;
+    }
     get driver(){
         if (!this._driver){
+            if (Config.printConfig){
+                console.log(Config.describe());
+            }
+            this.attachReporters();
             this._driver = new Builder()
                 .usingServer(Config.seleniumHubUrl)
                 .usingWebDriverProxy(Config.webDriverProxy)
-                .withCapabilities(capabilities[Config.browser])
+                .withCapabilities(resolveCapabilities(this.browser, {
+                    overrides: Config.capabilities,
+                    headless: Config.headless,
+                    args: Config.browserArgs
+                }))
                 .build();
-            this.driver.manage().window().maximize();
+            const webDriver = this._driver;
+            this._sessionEstablished = false;
+            webDriver.getSession().then(() => {
+                if (this._driver === webDriver) this._sessionEstablished = true;
+            }, () => undefined);
+            /* a session which fails to start is reported by the first call which needs it */
+            this.driver.manage().window().maximize().catch(() => undefined);
+            if (Config.storageState){
+                /* awaited by every driver call through ready() */
+                this._storagePreload = this.preloadStorageState(Config.storageState);
+                this._storagePreload.catch(() => undefined);
+            }
         }
         return this._driver;
     }
-    get(url: string){
-        return this.driver.get(url)
+    private attachReporters(){
+        if (this._reportersAttached){
+            return;
+        }
+        this._reportersAttached = true;
+        if (Config.traceDir){
+            new TraceReporter(Config.traceDir).attach(this.events);
+        }
+        if (Config.flakinessReportDir){
+            runFlakinessStats.attach(this.events, Config.flakinessReportDir);
+        }
+    }
+    get retryPolicy(): RetryPolicy{
+        return RetryPolicy.default.with(this._retryPolicy);
     }
-    executeScript<T>(script: string|Function, ...var_args: any[]){
-        return this.driver.executeScript<T>(script, ...var_args);
+    get retryPolicyOverrides(): RetryPolicyOptions | null{
+        return this._retryPolicy;
     }
-    async retryExecuteScript<T>(script: string|Function, ...var_args: any[]){
-        const preservedStack = getCleanStack(new Error().stack);
-        let currentException ;
-        const retryTimeoutCondition = timeoutCondition();
-        while (retryTimeoutCondition()){
+    setRetryPolicy(policy: RetryPolicy | RetryPolicyOptions | null){
+        /*
+        * Overrides global retry policy for every element bound to this driver, null goes back to the global one
+        * */
+        this._retryPolicy = policy instanceof RetryPolicy ? policy.options : policy;
+        return this;
+    }
+    private async retry<T>(action: string, attempt: () => Promise<T | RetryPending>, retryOptions?: RetryOptions): Promise<T>{
+        const stack = getCleanStack(new Error().stack);
+        const retry = this.startRetry(`Driver.${action}`, this.retryPolicy.with(retryOptions));
+        return retry.run(attempt, {stack, failure: e => this.failure(e, `Driver.${action}`, retry)});
+    }
+    startRetry(action: string, retryPolicy: RetryPolicy = this.retryPolicy, target = 'driver'){
+        /*
+        * Starts retry attempts reported to driver events
+        * */
+        return retryPolicy.start(this.events.observe(action, target), this.sessionGuard(action));
+    }
+    get recoversSessions(): boolean{
+        return this._recoverSessions ?? Config.recoverSessions;
+    }
+    setSessionRecovery(enabled: boolean){
+        /*
+        * Retries which hit a crashed browser or a session killed by the grid start a new session
+        * with the same capabilities, open the last remembered url with its cookies and go on
+        * */
+        this._recoverSessions = enabled;
+        return this;
+    }
+    async rememberSessionState(){
+        /*
+        * Url and cookies restored after recovery, get() remembers them after every navigation
+        * while recovery is on, call it after logging in on a page without navigation
+        * */
+        if (this._driver && this.recoversSessions){
+            this._sessionState = await captureSessionState(this._driver);
+        }
+    }
+    sessionGuard(action: string): SessionGuard{
+        /*
+        * One recovery per retry, a session which dies again during the same call is reported as lost
+        * */
+        let generation = this._sessionGeneration;
+        let recovered = false;
+        return {
+            isSessionLost: e => isSessionLostError(e, this._sessionEstablished),
+            recover: async error => {
+                if (generation !== this._sessionGeneration){
+                    /* other call has already recovered the session */
+                    generation = this._sessionGeneration;
+                    return;
+                }
+                if (recovered){
+                    throw new SessionLostError(action, error, 'it was lost again after recovery');
+                }
+                recovered = true;
+                await this.recoverSession(action, error);
+                generation = this._sessionGeneration;
+            }
+        };
+    }
+    private async recoverSession(action: string, error: any){
+        if (!this.recoversSessions){
+            this.events.emit('sessionLost', {action, error, recovered: false});
+            throw new SessionLostError(action, error, 'session recovery is off, turn it on by setSessionRecovery(true) or --recoverSessions');
+        }
+        if (!this._recovering){
+            this._recovering = this.rebuildSession().finally(() => this._recovering = null);
+        }
+        try {
+            await this._recovering;
+        } catch (e) {
+            this.events.emit('sessionLost', {action, error, recovered: false, recoveryError: e});
+            throw new SessionLostError(action, error, `recovery failed: ${e.message}`);
+        }
+        this.events.emit('sessionLost', {action, error, recovered: true});
+    }
+    private async rebuildSession(){
+        const lostDriver = this._driver;
+        this._driver = null;
+        this._inFrame = false;
+        this._windowsHistory = [];
+        this._sessionGeneration++;
+        /* the dead session is not waited for, its quit may hang till the grid timeout */
+        lostDriver?.quit().catch(() => undefined);
+        const webDriver = await this.ready();
+        if (this._sessionState){
+            await restoreSessionState(webDriver, this._sessionState);
+        } else {
+            await webDriver.getSession();
+        }
+    }
+    private async ready(){
+        /*
+        * Starts the session and waits for the storage state preloaded into it.
+        * A failed preload is thrown to the first caller only, later calls use the session as it is
+        * */
+        const webDriver = this.driver;
+        const storagePreload = this._storagePreload;
+        if (storagePreload){
             try {
-                return await this.driver.executeScript<T>(script, ...var_args);
-            } catch (e){
-                currentException = e;
+                await storagePreload;
+            } catch (e) {
+                if (this._storagePreload === storagePreload){
+                    this._storagePreload = null;
+                    throw e;
+                }
+            }
+        }
+        return webDriver;
+    }
+    private async preloadStorageState(filePath: string){
+        /*
+        * StorageStateError is not retried, so the failure reaches the caller instead of the next attempt
+        * */
+        try {
+            await this.loadStorageState(filePath);
+        } catch (e) {
+            throw e instanceof StorageStateError ? e : new StorageStateError(`Storage state is not loaded from ${filePath}: ${e.message}`);
+        }
+    }
+    async saveStorageState(filePath: string, urls: string[] = []){
+        /*
+        * Saves cookies with localStorage and sessionStorage of the current page origin to a JSON file,
+        * storage of other origins is read by opening the given urls one by one
+        * */
+        const origins: OriginStorage[] = [];
+        const cookies = [];
+        for (const url of urls.length ? urls : [null]){
+            if (url !== null){
+                await this.get(url);
+            }
+            const storage = await this.executeScript<OriginStorage>(readStorageState);
+            if (!/^https?:/.test(storage.origin)){
+                throw new StorageStateError(`Storage state can not be saved from ${storage.url}, open a page of the application first`);
+            }
+            origins.push(storage);
+            cookies.push(...await this.driver.manage().getCookies());
+        }
+        await writeStorageStateFile(filePath, {cookies: mergeCookies(cookies), origins});
+    }
+    async loadStorageState(filePath: string){
+        /*
+        * Opens every saved origin to write its cookies and storage, navigate to the page under test afterwards.
+        * Storage state from config is loaded this way into every new session
+        * */
+        const state = await readStorageStateFile(filePath);
+        await this.driver.switchTo().defaultContent();
+        this._inFrame = false;
+        for (const {origin, url, localStorage, sessionStorage} of state.origins){
+            await this.driver.get(url);
+            for (const cookie of state.cookies.filter(cookie => cookieMatchesOrigin(cookie, origin))){
+                await this.driver.manage().addCookie(cookie);
+            }
+            const actualOrigin = await this.driver.executeScript<string | null>(writeStorageState, origin, localStorage, sessionStorage);
+            if (actualOrigin !== null){
+                throw new StorageStateError(`Storage of ${origin} is not restored from ${filePath}, ${url} redirected to ${actualOrigin}`);
+            }
+        }
+    }
+    get actionability(): Required<ActionabilityOptions>{
+        return {...defaultActionability, ...this._actionability};
+    }
+    setActionability(options: ActionabilityOptions){
+        /*
+        * Checks run before every interaction of elements bound to this driver,
+        * {checks: []} turns them off
+        * */
+        this._actionability = options;
+        return this;
+    }
+    setAutoWaitForPageReady(options: PageReadyOptions | boolean){
+        /*
+        * Opt-in mode: waitForPageReady runs after get() and after element clicks
+        * */
+        this._autoPageReady = options === true ? {} : options || null;
+        return this;
+    }
+    get artifactCollector(): ArtifactCollector | null{
+        if (this._artifactCollector !== undefined){
+            return this._artifactCollector;
+        }
+        return Config.artifactsDir ? new ArtifactCollector(Config.artifactsDir) : null;
+    }
+    setArtifactCollector(collector: ArtifactCollector | null){
+        this._artifactCollector = collector;
+        return this;
+    }
+    async failure(error: any, call: string, retry?: RetryAttempts, target?: string, artifactTarget?: ArtifactTarget){
+        /*
+        * Rebuilds the last error of exhausted retries into a structured one with failure artifacts
+        * */
+        return this.attachFailureArtifacts(rebuildFailure(error, {action: call, target, ...retryDetails(retry)}),
+            call, artifactTarget);
+    }
+    async attachFailureArtifacts(error: any, call: string, target?: ArtifactTarget){
+        /*
+        * Collects failure artifacts when retries are exhausted,
+        * returns the same error with artifacts paths attached
+        * */
+        const collector = this.artifactCollector;
+        if (!collector || !this._driver || !error || error.artifacts){
+            return error;
+        }
+        try {
+            error.artifacts = await collector.collect(this._driver, call, target);
+            error.message += `\nFailure artifacts: ${error.artifacts.directory}`;
+        } catch (e) {
+            error.message += `\nFailure artifacts are not collected: ${e.message}`;
+        }
+        return error;
+    }
+    async switchToFrame(frame: WebElement){
+        await this.driver.switchTo().frame(frame);
+        this._inFrame = true;
+    }
+    async restoreFrameContext(){
+        /*
+        * Elements resolved through a frame hop leave the driver inside the frame,
+        * resolution of any other element and driver level calls start from the top document
+        * */
+        await this.ready();
+        if (this._inFrame){
+            await this.driver.switchTo().defaultContent();
+            this._inFrame = false;
+        }
+    }
+    async get(url: string){
+        await this.restoreFrameContext();
+        await this.driver.get(url);
+        await this.autoWaitForPageReady();
+        await this.rememberSessionState();
+    }
+    async waitForPageReady(options: PageReadyOptions = {}, retryOptions?: RetryOptions){
+        /*
+        * Waits for document load, no in-flight XHR/fetch and optionally
+        * Angular stability and the predicate executed in the page
+        * */
+        const {network, networkIdleTime, angular, predicate} = {...defaultPageReadyOptions, ...options};
+        await this.ready();
+        return this.retry('waitForPageReady', async () => {
+            const state = await this.driver.executeScript<PageReadyState>(getPageReadyState,
+                network, networkIdleTime, angular, toPredicateSource(predicate));
+            if (!state.ready){
+                return new RetryPending(new PageNotReadyError(state.reason || 'unknown reason'));
+            }
+        }, retryOptions);
+    }
+    async autoWaitForPageReady(){
+        if (this._autoPageReady){
+            await this.waitForPageReady(this._autoPageReady);
+        }
+    }
+    private async switchToHandle(handle: string){
+        await this.driver.switchTo().window(handle);
+        this._inFrame = false;
+    }
+    private async getCurrentHandle(): Promise<string | null>{
+        try {
+            return await this.driver.getWindowHandle();
+        } catch (e) {
+            /* current window may be already closed */
+            return null;
+        }
+    }
+    async waitForNewWindow(action: () => Promise<unknown>, retryOptions?: RetryOptions): Promise<string>{
+        /*
+        * Runs action and waits for a window which was not open before it, returns its handle
+        * */
+        await this.ready();
+        const knownHandles = await this.driver.getAllWindowHandles();
+        await action();
+        return this.retry('waitForNewWindow', async () => {
+            const newHandles = (await this.driver.getAllWindowHandles())
+                .filter(handle => !knownHandles.includes(handle));
+            return newHandles.length ? newHandles[0] :
+                new RetryPending(new NoSuchWindowError(`New window is not opened, open windows: ${knownHandles.length}`));
+        }, retryOptions);
+    }
+    private async findWindow(matcher: WindowMatcher): Promise<string | null>{
+        const handles = await this.driver.getAllWindowHandles();
+        if (typeof matcher === 'number'){
+            const handle = handles[matcher < 0 ? handles.length + matcher : matcher];
+            if (handle){
+                await this.switchToHandle(handle);
+            }
+            return handle || null;
+        }
+        for (const handle of handles){
+            await this.switchToHandle(handle);
+            if (matchesText(await this.driver.getTitle(), matcher.title) &&
+                matchesText(await this.driver.getCurrentUrl(), matcher.url)){
+                return handle;
             }
         }
-        throw currentException;
+        return null;
+    }
+    async switchToWindow(matcher: WindowMatcher | string, retryOptions?: RetryOptions): Promise<string>{
+        /*
+        * Retries until a matching window appears, string is treated as a window handle.
+        * Previous window is remembered for closeWindow and switchToPreviousWindow
+        * */
+        await this.ready();
+        const previousHandle = await this.getCurrentHandle();
+        let handle;
+        try {
+            handle = await this.retry('switchToWindow', async () => {
+                if (typeof matcher === 'string'){
+                    await this.switchToHandle(matcher);
+                    return matcher;
+                }
+                return await this.findWindow(matcher) || new RetryPending(new NoSuchWindowError(`No window matches: ${inspect(matcher)}`));
+            }, retryOptions);
+        } catch (e) {
+            if (previousHandle){
+                await this.switchToHandle(previousHandle).catch(() => undefined);
+            }
+            throw e;
+        }
+        if (previousHandle && previousHandle !== handle){
+            this._windowsHistory.push(previousHandle);
+        }
+        return handle;
+    }
+    async switchToPreviousWindow(){
+        await this.ready();
+        const openHandles = await this.driver.getAllWindowHandles();
+        let handle;
+        while ((handle = this._windowsHistory.pop())){
+            if (openHandles.includes(handle)){
+                return this.switchToHandle(handle);
+            }
+        }
+        if (openHandles.length){
+            await this.switchToHandle(openHandles[0]);
+        }
+    }
+    async closeWindow(){
+        /*
+        * Closes current window and returns to the one it was switched from
+        * */
+        await this.ready();
+        await this.driver.close();
+        await this.switchToPreviousWindow();
+    }
+    async inWindow<T>(matcher: WindowMatcher | string, callback: () => Promise<T>, retryOptions?: RetryOptions): Promise<T>{
+        /*
+        * Runs callback inside another window and switches back even if it fails
+        * */
+        await this.ready();
+        const previousHandle = await this.getCurrentHandle();
+        const historyLength = this._windowsHistory.length;
+        await this.switchToWindow(matcher, retryOptions);
+        try {
+            return await callback();
+        } finally {
+            this._windowsHistory.length = historyLength;
+            if (previousHandle){
+                await this.switchToHandle(previousHandle);
+            }
+        }
+    }
+    async executeScript<T>(script: string|Function, ...var_args: any[]): Promise<T>{
+        await this.restoreFrameContext();
+        return this.driver.executeScript<T>(script, ...var_args);
+    }
+    async retryExecuteScript<T>(script: string|Function, ...var_args: any[]){
+        return this.retryExecuteScriptWith<T>(undefined, script, ...var_args);
+    }
+    async retryExecuteScriptWith<T>(retryOptions: RetryOptions | undefined, script: string|Function, ...var_args: any[]){
+        /*
+        * retryExecuteScript with a per-call retry policy, script arguments may be any objects so the policy goes first
+        * */
+        return this.retry('retryExecuteScript', () => this.executeScript<T>(script, ...var_args), retryOptions);
+    }
+    get hasSession(): boolean{
+        return !!this._driver;
     }
     async quit(){
+        /*
+        * Next call to driver starts a new session
+        * */
         if (this._driver){
-            await this._driver.quit();
+            let sessionId = null;
+            try {
+                sessionId = (await this._driver.getSession()).getId();
+            } catch (e) {
+                /* session may be already dead, quit anyway */
+            }
+            try {
+                await this._driver.quit();
+            } finally {
+                this._driver = null;
+                this._inFrame = false;
+                this._windowsHistory = [];
+                this._sessionState = null;
+                this._storagePreload = null;
+            }
+            this.events.emit('quit', {sessionId});
         }
     }
-    wait<T>(condition: PromiseLike<T>|Condition<T>|((driver: WebDriver) => T | PromiseLike<T>)|Function,
+    async wait<T>(condition: PromiseLike<T>|Condition<T>|((driver: WebDriver) => T | PromiseLike<T>)|Function,
         opt_timeout?: number, opt_message?: string): Promise<T>{
+        await this.restoreFrameContext();
         return this.driver.wait(condition, opt_timeout, opt_message)
     };
-    getCurrentUrl(){
+    async getCurrentUrl(){
+        await this.ready();
         return this.driver.getCurrentUrl();
     }
-    findElements(locator: Locator){
+    async findElements(locator: Locator){
+        await this.restoreFrameContext();
         return this.driver.findElements(locator);
     }
-    switchTo(){
-        return this.driver.switchTo()
+    switchTo(): TargetLocator{
+        return topDocumentTargetLocator(this);
     }
     async getCapabilities(){
         if (this._capabilities){
             return this._capabilities
         }
+        await this.ready();
         const capabilities = await this.driver.getCapabilities();
         this._capabilities = capabilities;
         return capabilities;
     }
-    takeScreenshot(){
+    async takeScreenshot(){
+        await this.restoreFrameContext();
         return this.driver.takeScreenshot();
     }
+    async expectToMatchScreenshot(name: string, options: ScreenshotOptions = {}){
+        /*
+        * Compares the viewport with baseline "name", retries until the page stops changing and matches
+        * */
+        const comparison = new ScreenshotComparison(name, this.browser, options, this.events);
+        return retryAssert(async () => comparison.shoot(async () => ({
+            screenshot: await this.takeScreenshot(),
+            origin: await this.driver.executeScript<IRectangle>(
+                'return {x: window.pageXOffset, y: window.pageYOffset, width: window.innerWidth, height: window.innerHeight};')
+        }), e => this.retryPolicy.isRetriable(e)), shot => comparison.verify(shot), {
+            message: options.message,
+            timeout: options.timeout,
+            retryPolicy: this.retryPolicy,
+            action: 'Driver.expectToMatchScreenshot',
+            onFailure: async e => this.failure(await comparison.writeFailureImages(e), 'Driver.expectToMatchScreenshot'),
+            observer: this.events.observe('Driver.expectToMatchScreenshot', 'driver'),
+            sessionGuard: this.sessionGuard('Driver.expectToMatchScreenshot'),
+            target: `screenshot '${name}'`
+        });
+    }
+    $(cssSelector: string){
+        /*
+        * Elements created here and every element chained from them use this driver session
+        * */
+        return new Element(By.css(cssSelector), this);
+    }
+    $$(cssSelector: string){
+        return new ElementAll(By.css(cssSelector), this);
+    }
+    xpath(xpath: string){
+        return new Element(By.xpath(xpath), this);
+    }
+    xx(xpath: string){
+        return new ElementAll(By.xpath(xpath), this);
+    }
+    element(locator: Locator){
+        return new Element(locator, this);
+    }
+    frame(locator: Locator | string){
+        return new Element([new FrameHop(typeof locator === 'string' ? By.css(locator) : locator)], this);
+    }
 }
 
 class Element {
     private ownLocator : Locator | null = null;
-    private chainedLocators: Locator[] = [];
+    private chainedLocators: ChainStep[] = [];
+    private stepNames: Array<string | undefined> = [];
     private _webDriver: Driver;
-    constructor(locator: Locator | Locator[], webDriver: Driver = driver){
+    protected _retryPolicy: RetryPolicyOptions | null = null;
+    private readonly parent: Element | null;
+    constructor(locator: Locator | ChainStep[], webDriver: Driver = currentDefaultDriver(), parent: Element | null = null){
+        /*
+        * Locators are searched inside the parent element when it is given
+        * otherwise from the document root
+        * */
         if (Array.isArray(locator)){
             this.chainedLocators.push(...locator);
-            this.ownLocator = this.chainedLocators[this.chainedLocators.length - 1];
+            const lastStep = this.chainedLocators[this.chainedLocators.length - 1];
+            this.ownLocator = lastStep && !isHop(lastStep) ? lastStep : null;
         } else {
             this.chainedLocators.push(locator);
             this.ownLocator = locator;
         }
         this._webDriver = webDriver;
+        this.parent = parent;
+    }
+    get webDriver(){
+        return this._webDriver;
     }
     get currentLocator(){
         if (this.ownLocator){
@@ -154,44 +777,177 @@ class Element {
         throw new TypeError('Locator is null');
     }
     private getSlicedLocators(index: number){
-        return this.chainedLocators.slice(0, index + 1);
+        return this.formatLocators(this.chainedLocators.slice(0, index + 1));
+    }
+    private formatLocators(locators: ChainStep[]){
+        const steps = locators.map((step, index) =>
+            this.stepNames[index] ? `'${this.stepNames[index]}' (${step})` : String(step));
+        return this.parent ? [this.parent, ...steps].join(',') : steps.join(',');
+    }
+    toString(): string{
+        return this.formatLocators(this.chainedLocators);
     }
     private getLocators(index: number){
         return this.chainedLocators;
     }
-    async retryGetElement(timeout?: number): Promise<WebElement>{
-        const preservedStack = getCleanStack(new Error().stack);
-        let currentException ;
-        const retryTimeoutCondition = timeoutCondition(timeout);
-        while (retryTimeoutCondition()){
-            try {
-                return await this.getElement();
-            } catch (e){
-                if(e instanceof InvalidSelectorError) throw e;
-                e.stack = preservedStack;
-                currentException = e;
-            }
+    get retryPolicy(): RetryPolicy{
+        return this.getRetryPolicy();
+    }
+    protected get basePolicy(): RetryPolicy{
+        /*
+        * Read on every call so later driver and global policy changes reach existing elements
+        * */
+        return this.parent ? this.parent.retryPolicy : this._webDriver.retryPolicy;
+    }
+    private getRetryPolicy(retry?: RetryOptions): RetryPolicy{
+        /*
+        * Per call options override element ones, element options override driver ones
+        * */
+        return this.basePolicy.with(this._retryPolicy).with(retry);
+    }
+    protected get childParent(): Element | null{
+        return this.parent;
+    }
+    protected copy(): Element{
+        const element = new Element(this.chainedLocators, this._webDriver, this.parent);
+        element.stepNames = [...this.stepNames];
+        return element;
+    }
+    protected get reportsFailures(): boolean{
+        return true;
+    }
+    private observe(action: string): RetryObserver | undefined{
+        if (!this.reportsFailures){
+            return undefined;
         }
-        throw currentException;
+        return this._webDriver.events.observe(`Element.${action}`, String(this));
     }
-    async getElement(): Promise<WebElement>{
-        let localDriver: ThenableWebDriver | WebElement = this._webDriver.driver;
-        for (const [index, locator] of this.chainedLocators.entries()){
+    private startRetry(action: string, retryOptions?: RetryOptions){
+        return this.getRetryPolicy(retryOptions).start(this.observe(action), this._webDriver.sessionGuard(`Element.${action}`));
+    }
+    private async failure(error: any, call: string, retry?: RetryAttempts){
+        if (!this.reportsFailures){
+            return error;
+        }
+        return this._webDriver.failure(error, `Element.${call}`, retry, String(this), this);
+    }
+    private async retry<T>(action: string, attempt: () => Promise<T | RetryPending>, retryOptions?: RetryOptions): Promise<T>{
+        /*
+        * Every attempt resolves the element again, swallowed errors get the locators chain
+        * */
+        const stack = getCleanStack(new Error().stack);
+        const retry = this.startRetry(action, retryOptions);
+        return retry.run(attempt, {
+            stack,
+            describe: e => {
+                if (!e.getElementError) e.message += `\nLocators chain: ${this}`;
+            },
+            failure: e => this.failure(e, action, retry)
+        });
+    }
+    private createChild(locators: ChainStep[]): Element{
+        const child = new Element(locators, this._webDriver, this.childParent);
+        child._retryPolicy = this._retryPolicy;
+        child.stepNames = [...this.stepNames];
+        return child;
+    }
+    as(name: string): Element{
+        /*
+        * Returns a copy of the element shown by name next to its locator in errors and reports,
+        * elements chained from it keep the name in their path
+        * */
+        const element = this.copy();
+        element._retryPolicy = this._retryPolicy;
+        element.stepNames[this.chainedLocators.length - 1] = name;
+        return element;
+    }
+    withRetryPolicy(policy: RetryPolicy | RetryPolicyOptions): Element{
+        /*
+        * Returns a copy of the element which retries with given policy,
+        * elements chained from it inherit the policy
+        * */
+        const element = this.copy();
+        const overrides = Object.entries(policy instanceof RetryPolicy ? policy.options : policy)
+            .filter(([, value]) => value !== undefined);
+        element._retryPolicy = {...this._retryPolicy, ...Object.fromEntries(overrides)};
+        return element;
+    }
+    asSelect(adapter?: DropdownAdapter): SelectElement{
+        /*
+        * Native select by default, adapter drives custom dropdown components
+        * */
+        return new SelectElement(this, adapter);
+    }
+    asTable(options?: TableOptions): Table{
+        /*
+        * Native table by default, options locate rows and cells of div grids
+        * */
+        return new Table(this, options);
+    }
+    async retryGetElement(retryOptions?: RetryOptions): Promise<WebElement>{
+        return this.retry('retryGetElement', () => this.getElement(), retryOptions);
+    }
+    private async resolveChain(){
+        /*
+        * Walks the chain switching into frames and shadow roots on hops,
+        * returns where the next step has to be searched
+        * */
+        let localDriver: ThenableWebDriver | WebElement;
+        if (this.parent){
+            localDriver = await this.parent.getElement();
+        } else {
+            await this._webDriver.restoreFrameContext();
+            localDriver = this._webDriver.driver;
+        }
+        let shadowHost: WebElement | null = null;
+        for (const [index, step] of this.chainedLocators.entries()){
             try {
-                localDriver = await localDriver.findElement(locator);
+                if (step instanceof ShadowHop){
+                    if (localDriver === this._webDriver.driver){
+                        throw new InvalidSelectorError('shadow() hop has to follow a shadow host element');
+                    }
+                    shadowHost = localDriver as WebElement;
+                    continue;
+                }
+                const locator = step instanceof FrameHop ? step.locator : step;
+                const webElement: WebElement = shadowHost ?
+                    await findInShadowRoot(this._webDriver.driver, shadowHost, locator) :
+                    await localDriver.findElement(locator);
+                shadowHost = null;
+                if (step instanceof FrameHop){
+                    await this._webDriver.switchToFrame(webElement);
+                    localDriver = this._webDriver.driver;
+                } else {
+                    localDriver = webElement;
+                }
             } catch (e) {
                 e.message += `\nLocators chain: ${this.getSlicedLocators(index)}`;
                 e.getElementError = true;
                 throw e;
             }
         }
+        return {localDriver, shadowHost};
+    }
+    async getElement(): Promise<WebElement>{
+        if (isHop(this.chainedLocators[this.chainedLocators.length - 1])){
+            throw new InvalidSelectorError(`Locators chain can not end with a hop, add a locator after it: ${this}`);
+        }
+        const {localDriver} = await this.resolveChain();
         return localDriver as WebElement;
     }
     async findElements(locator: Locator){
         try {
-            return await (await this.getElement()).findElements(locator);
+            if (!this.chainedLocators.length){
+                /* collection items have no chain of their own, they are resolved by getElement */
+                return await (await this.getElement()).findElements(locator);
+            }
+            const {localDriver, shadowHost} = await this.resolveChain();
+            if (shadowHost){
+                return await findAllInShadowRoot(this._webDriver.driver, shadowHost, locator);
+            }
+            return await localDriver.findElements(locator);
         } catch (e){
-            e.message += `\nLocators chain: ${this.chainedLocators} All: ${locator}`;
+            e.message += `\nLocators chain: ${this} All: ${locator}`;
             e.getElementError = true;
             throw e;
         }
@@ -200,117 +956,117 @@ class Element {
         /*
         * Ordinary click without retries only retries on getting the element
         * */
-        return (await this.retryGetElement()).click();
+        await (await this.retryGetElement()).click();
+        await this._webDriver.autoWaitForPageReady();
     }
-    async click(retryTimeout?: number){
+    async click(retryOptions?: RetryOptions){
         /*
-        * Retries click only enabled element retries if click fails
+        * Retries click till element is actionable and click passes
         * */
-        const preservedStack = getCleanStack(new Error().stack);
-        let currentException;
-        const retryTimeoutCondition = timeoutCondition(retryTimeout);
-        while (retryTimeoutCondition()){
-            try {
-                const webElement = await this.getElement();
-                if (await webElement.isEnabled()){
-                    await webElement.click();
-                    return ;
-                }
-            } catch (e) {
-                if(e instanceof InvalidSelectorError) throw e;
-                if (!e.getElementError) e.message += `\nLocators chain: ${this.chainedLocators}`;
-                e.stack = preservedStack;
-                currentException = e;
-            }
-        }
-        throw currentException;
+        await this.retryGesture('click', webElement => webElement.click(), retryOptions, []);
+        await this._webDriver.autoWaitForPageReady();
+    }
+    private async ensureActionable(webElement: WebElement, skip: ActionabilityCheck[] = []){
+        const {checks, stableFrames} = this._webDriver.actionability;
+        await checkActionability(this._webDriver.driver, webElement, {
+            checks: checks.filter(check => !skip.includes(check)),
+            stableFrames
+        });
+    }
+    private async retryGesture(action: string, perform: (webElement: WebElement) => Promise<void>,
+                               retryOptions?: RetryOptions, skipChecks?: ActionabilityCheck[]){
+        /*
+        * Re-resolves the element and repeats the whole gesture until it succeeds,
+        * skipChecks are actionability checks which make no sense for the gesture, without them none is run
+        * */
+        return this.retry(action, async () => {
+            const webElement = await this.getElement();
+            if (skipChecks) await this.ensureActionable(webElement, skipChecks);
+            await perform(webElement);
+        }, retryOptions);
+    }
+    private actions(){
+        return this._webDriver.driver.actions({bridge: true});
+    }
+    async hover(retryOptions?: RetryOptions){
+        return this.retryGesture('hover', webElement =>
+            this.actions().move({origin: webElement}).perform(), retryOptions, ['enabled']);
+    }
+    async doubleClick(retryOptions?: RetryOptions){
+        await this.retryGesture('doubleClick', webElement =>
+            this.actions().doubleClick(webElement).perform(), retryOptions, []);
+        await this._webDriver.autoWaitForPageReady();
+    }
+    async contextClick(retryOptions?: RetryOptions){
+        await this.retryGesture('contextClick', webElement =>
+            this.actions().contextClick(webElement).perform(), retryOptions, []);
+        await this._webDriver.autoWaitForPageReady();
+    }
+    async dragTo(target: Element | {x: number, y: number}, retryOptions?: RetryOptions){
+        /*
+        * Drops on the center of target element or by offset in pixels from the current position
+        * */
+        return this.retryGesture('dragTo', async webElement => {
+            const destination = target instanceof Element ? await target.getElement() : target;
+            await this.actions().dragAndDrop(webElement, destination).perform();
+        }, retryOptions, []);
+    }
+    async pressKeys(...args: Array<string | RetryPolicy | RetryPolicyOptions>){
+        /*
+        * Presses keys as a chord, e.g. pressKeys(Key.CONTROL, 'a'), a retry policy may follow the keys
+        * */
+        const [keys, retryOptions] = splitKeys(args);
+        return this.retryGesture('pressKeys', webElement => webElement.sendKeys(Key.chord(...keys as string[])),
+            retryOptions, keyboardSkippedChecks);
+    }
+    async scrollIntoView(retryOptions?: RetryOptions){
+        return this.retryGesture('scrollIntoView', async webElement => {
+            await this._webDriver.driver.executeScript(
+                'arguments[0].scrollIntoView({block: "center", inline: "center"});', webElement);
+        }, retryOptions);
     }
     async clickAnimated(){
-        function waitForElementPositionStable(){
-            const timeout = 2000;
-            const startDate = +new Date();
-            const element  = arguments[0];
-            let previousLocation = element?.getBoundingClientRect();
-            return new Promise((resolve, reject)=>{
-                setInterval(()=>{
-                    const rect = element?.getBoundingClientRect();
-                    if (rect?.x === previousLocation?.x && rect?.y === previousLocation?.y){
-                        resolve();
-                    } else {
-                        if ((+new Date()) - startDate > timeout) reject(`Previous: ${previousLocation?.x} ${previousLocation?.y}, Current ${rect?.x}, ${rect?.y}`);
-                        previousLocation = rect;
-                    }
-                }, 10);
-            });
-        }
-        await this._webDriver.retryExecuteScript(waitForElementPositionStable, await this.retryGetElement());
-        await this.click();
+        /*
+        * @deprecated click waits for position and size to be stable itself
+        * */
+        return this.click();
     }
-    async clickTillAttributeEqual(name: string, value: string){
-        const preservedStack = getCleanStack(new Error().stack);
-        let currentException;
-        const retryTimeoutCondition = timeoutCondition();
-        while (retryTimeoutCondition()){
-            try {
-                const webElement = await this.getElement();
-                await webElement.click();
-                if((await webElement.getAttribute(name)).includes(value)) return ;
-            } catch (e) {
-                if(e instanceof InvalidSelectorError) throw e;
-                if (!e.getElementError) e.message += `\nLocators chain: ${this.chainedLocators}`;
-                e.stack = preservedStack;
-                currentException = e;
-            }
-        }
-        throw currentException;
+    async clickTillAttributeEqual(name: string, value: string, retryOptions?: RetryOptions){
+        return this.retry('clickTillAttributeEqual', async () => {
+            const webElement = await this.getElement();
+            await webElement.click();
+            if (!(await webElement.getAttribute(name)).includes(value)) return new RetryPending();
+        }, retryOptions);
     }
-    async clickTillElementPresent(element: Element){
-        const preservedStack = getCleanStack(new Error().stack);
-        let currentException;
-        const retryTimeoutCondition = timeoutCondition();
-        while (retryTimeoutCondition()){
-            try {
-                const webElement = await this.getElement();
-                await webElement.click();
-                if(await element.isPresent()) return ;
-            } catch (e) {
-                if(e instanceof InvalidSelectorError) throw e;
-                if (!e.getElementError) e.message += `\nLocators chain: ${this.chainedLocators}`;
-                e.stack = preservedStack;
-                currentException = e;
-            }
-        }
-        throw currentException;
+    async clickTillElementPresent(element: Element, retryOptions?: RetryOptions){
+        return this.retry('clickTillElementPresent', async () => {
+            const webElement = await this.getElement();
+            await webElement.click();
+            if (!await element.isPresent()) return new RetryPending();
+        }, retryOptions);
     }
 
-    async clickSendKeys(...var_args: Array<string | number | Promise<string | number>>) {
+    async clickSendKeys(...args: Array<string | number | Promise<string | number> | RetryPolicy | RetryPolicyOptions>) {
         /*
         * Clicks on an element before text typing due to fix bug:
         * https://bugs.chromium.org/p/chromedriver/issues/detail?id=1771
         * https://github.com/angular/angular/issues/6977
         * */
-        const preservedStack = getCleanStack(new Error().stack);
-        let currentException: any;
-        const retryTimeoutCondition = timeoutCondition();
-        while (retryTimeoutCondition()) {
-            try {
-                const webElement = await this.getElement();
-                if (await webElement.isEnabled()) {
-                    await webElement.click();
-                    await webElement.sendKeys(...var_args);
-                    return;
-                }
-            } catch (e) {
-                if (e instanceof InvalidSelectorError) throw e;
-                if (!e.getElementError) e.message += `\nLocators chain: ${this.chainedLocators}`;
-                e.stack = preservedStack;
-                currentException = e;
-            }
-        }
-        throw currentException;
+        const [keys, retryOptions] = splitKeys(args);
+        return this.retry('clickSendKeys', async () => {
+            const webElement = await this.getElement();
+            await this.ensureActionable(webElement);
+            await webElement.click();
+            await webElement.sendKeys(...keys);
+        }, retryOptions);
     }
-    async sendKeys(...var_args: Array<string|number|Promise<string|number>>): Promise<void>{
-        return (await this.retryGetElement()).sendKeys(...var_args);
+    async sendKeys(...args: Array<string | number | Promise<string | number> | RetryPolicy | RetryPolicyOptions>): Promise<void>{
+        /*
+        * A retry policy may follow the keys: sendKeys('text', {timeout: 5000})
+        * */
+        const [keys, retryOptions] = splitKeys(args);
+        return this.retryGesture('sendKeys', webElement => webElement.sendKeys(...keys),
+            retryOptions, keyboardSkippedChecks);
     }
     async clear(): Promise<void>{
         return (await this.retryGetElement()).clear();
@@ -339,37 +1095,11 @@ class Element {
     async isSelected(){
         return (await this.retryGetElement()).isSelected();
     }
-    async retryIsDisplayed(){
-        const preservedStack = getCleanStack(new Error().stack);
-        let currentException: any;
-        const retryTimeoutCondition = timeoutCondition();
-        while (retryTimeoutCondition()){
-            try {
-                return await (await this.getElement()).isDisplayed();
-            } catch (e) {
-                if(e instanceof InvalidSelectorError) throw e;
-                if (!e.getElementError) e.message += `\nLocators chain: ${this.chainedLocators}`;
-                e.stack = preservedStack;
-                currentException = e;
-            }
-        }
-        throw currentException;
+    async retryIsDisplayed(retryOptions?: RetryOptions){
+        return this.retry('retryIsDisplayed', async () => (await this.getElement()).isDisplayed(), retryOptions);
     }
-    async retryGetText(){
-        const preservedStack = getCleanStack(new Error().stack);
-        let currentException: any;
-        const retryTimeoutCondition = timeoutCondition();
-        while (retryTimeoutCondition()){
-            try {
-                return await (await this.getElement()).getText();
-            } catch (e) {
-                if(e instanceof InvalidSelectorError) throw e;
-                if (!e.getElementError) e.message += `\nLocators chain: ${this.chainedLocators}`;
-                e.stack = preservedStack;
-                currentException = e;
-            }
-        }
-        throw currentException;
+    async retryGetText(retryOptions?: RetryOptions){
+        return this.retry('retryGetText', async () => (await this.getElement()).getText(), retryOptions);
     }
     private async isPresent(): Promise<boolean>{
         try {
@@ -383,98 +1113,139 @@ class Element {
             throw e;
         }
     }
-    async waitForVisible(): Promise<void>{
-        const preservedStack = getCleanStack(new Error().stack);
-        let currentException;
-        const retryTimeoutCondition = timeoutCondition();
-        while (retryTimeoutCondition()){
-            try {
-                const webElement = await this.getElement();
-                if (await webElement.isDisplayed()){
-                    return;
-                }
-            } catch (e) {
-                if(e instanceof InvalidSelectorError) throw e;
-                if (!e.getElementError) e.message += `\nLocators chain: ${this.chainedLocators}`;
-                e.stack = preservedStack;
-                currentException = e;
-            }
-        }
-        throw currentException;
+    async waitForVisible(retryOptions?: RetryOptions): Promise<void>{
+        return this.retry('waitForVisible', async () => {
+            if (!await (await this.getElement()).isDisplayed()) return new RetryPending();
+        }, retryOptions);
     }
-    async waitForNotPresent(): Promise<void>{
-        const preservedStack = getCleanStack(new Error().stack);
-        let currentException;
-        const retryTimeoutCondition = timeoutCondition();
-        while (retryTimeoutCondition()){
-            try {
-                await this.getElement();
-            } catch (e) {
-                if(e instanceof InvalidSelectorError) throw e;
-                if ((e instanceof NoSuchElementError) ||
-                    (e instanceof StaleElementReferenceError)) {
-                    return ;
-                }
-                e.stack = preservedStack;
-                currentException = e;
-            }
-        }
-        throw currentException;
+    async waitForNotPresent(retryOptions?: RetryOptions): Promise<void>{
+        /*
+        * Missing element is the awaited state and is never passed to the retriable errors classifier
+        * */
+        return this.retry('waitForNotPresent', async () => {
+            if (await this.isPresent()) return new RetryPending();
+        }, retryOptions);
     }
-    async expectToBeSelected(failMessage?: string){
+    async expectToBeSelected(failMessage?: string, retryOptions?: RetryOptions){
         return retryExpect(async ()=>(await this.retryGetElement()).isSelected(), true, {
-            message: `${failMessage}\n Expected element to be selected ${this.chainedLocators}`
+            message: expectationMessage(failMessage, 'Expected element to be selected'),
+            retryPolicy: this.getRetryPolicy(retryOptions),
+            action: 'Element.expectToBeSelected',
+            onFailure: e => this.failure(e, 'expectToBeSelected'),
+            observer: this.observe('expectToBeSelected'),
+            target: String(this)
         })
     }
-    async expectToBeUnSelected(failMessage?: string){
+    async expectToBeUnSelected(failMessage?: string, retryOptions?: RetryOptions){
         return retryExpect(async ()=>(await this.retryGetElement()).isSelected(), false, {
-            message: `${failMessage}\n Expected element to be unselected ${this.chainedLocators}`
+            message: expectationMessage(failMessage, 'Expected element to be unselected'),
+            retryPolicy: this.getRetryPolicy(retryOptions),
+            action: 'Element.expectToBeUnSelected',
+            onFailure: e => this.failure(e, 'expectToBeUnSelected'),
+            observer: this.observe('expectToBeUnSelected'),
+            target: String(this)
         })
     }
-    async expectToBePresent(failMessage?: string, timeout?: TimeConstants){
+    async expectToBePresent(failMessage?: string, retryOptions?: RetryOptions){
         return retryExpect(async ()=>this.isPresent(), true, {
-            message: `${failMessage}\n Expected element to be present ${this.chainedLocators}`, timeout: timeout
+            message: expectationMessage(failMessage, 'Expected element to be present'),
+            retryPolicy: this.getRetryPolicy(retryOptions),
+            action: 'Element.expectToBePresent',
+            onFailure: e => this.failure(e, 'expectToBePresent'),
+            observer: this.observe('expectToBePresent'),
+            target: String(this)
         })
     }
-    async expectToBeNotPresent(failMessage?: string, timeout?: TimeConstants){
+    async expectToBeNotPresent(failMessage?: string, retryOptions?: RetryOptions){
         return retryExpect(async ()=>this.isPresent(), false, {
-            message: `${failMessage}\n Expected element not to be present ${this.chainedLocators}`, timeout: timeout
+            message: expectationMessage(failMessage, 'Expected element not to be present'),
+            retryPolicy: this.getRetryPolicy(retryOptions),
+            action: 'Element.expectToBeNotPresent',
+            onFailure: e => this.failure(e, 'expectToBeNotPresent'),
+            observer: this.observe('expectToBeNotPresent'),
+            target: String(this)
         })
     }
-    async expectToBeNotDisplayed(failMessage?: string){
+    async expectToBeNotDisplayed(failMessage?: string, retryOptions?: RetryOptions){
         return retryExpect(async ()=>this.retryIsDisplayed(), false, {
-            message: `${failMessage}\n Expected element not to be displayed ${this.chainedLocators}`
+            message: expectationMessage(failMessage, 'Expected element not to be displayed'),
+            retryPolicy: this.getRetryPolicy(retryOptions),
+            action: 'Element.expectToBeNotDisplayed',
+            onFailure: e => this.failure(e, 'expectToBeNotDisplayed'),
+            observer: this.observe('expectToBeNotDisplayed'),
+            target: String(this)
         })
     }
-    async expectTextToBe(expectedText: string, failMessage?: string){
+    async expectTextToBe(expectedText: string, failMessage?: string, retryOptions?: RetryOptions){
         return retryExpect(async ()=>this.retryGetText(), expectedText, {
             message: failMessage,
-            concatenateMessages: true
+            retryPolicy: this.getRetryPolicy(retryOptions),
+            action: 'Element.expectTextToBe',
+            onFailure: e => this.failure(e, 'expectTextToBe'),
+            observer: this.observe('expectTextToBe'),
+            target: String(this)
         })
     }
-    async expectInputValueToBe(expectedText: string, failMessage?: string){
+    async expectInputValueToBe(expectedText: string, failMessage?: string, retryOptions?: RetryOptions){
         return retryExpect(async ()=>(await this.retryGetElement()).getAttribute('value'), expectedText, {
             message: failMessage,
-            concatenateMessages: true
+            retryPolicy: this.getRetryPolicy(retryOptions),
+            action: 'Element.expectInputValueToBe',
+            onFailure: e => this.failure(e, 'expectInputValueToBe'),
+            observer: this.observe('expectInputValueToBe'),
+            target: String(this)
+        })
+    }
+    async expectToMatchScreenshot(name: string, options: ScreenshotOptions = {}){
+        /*
+        * Compares screenshot of the element with baseline "name", masks of child elements follow them
+        * */
+        const comparison = new ScreenshotComparison(name, this._webDriver.browser, options, this._webDriver.events);
+        return retryAssert(async () => comparison.shoot(async () => {
+            const webElement = await this.retryGetElement();
+            return {screenshot: await webElement.takeScreenshot(), origin: await webElement.getRect()};
+        }, e => this.retryPolicy.isRetriable(e)), shot => comparison.verify(shot), {
+            message: options.message,
+            timeout: options.timeout,
+            retryPolicy: this.retryPolicy,
+            action: 'Element.expectToMatchScreenshot',
+            onFailure: async e => this.failure(await comparison.writeFailureImages(e), 'expectToMatchScreenshot'),
+            observer: this.observe('expectToMatchScreenshot'),
+            sessionGuard: this._webDriver.sessionGuard('Element.expectToMatchScreenshot'),
+            target: String(this)
         })
     }
     $(cssSelector: string): Element{
-        return new Element([...this.chainedLocators, By.css(cssSelector)]);
+        return this.createChild([...this.chainedLocators, By.css(cssSelector)]);
+    }
+    frame(locator: Locator | string): Element{
+        /*
+        * Steps chained after the hop are searched inside the iframe document
+        * */
+        const frameLocator = typeof locator === 'string' ? By.css(locator) : locator;
+        return this.createChild([...this.chainedLocators, new FrameHop(frameLocator)]);
+    }
+    shadow(): Element{
+        /*
+        * Steps chained after the hop are searched inside the element open shadow root,
+        * only css locators work there
+        * */
+        return this.createChild([...this.chainedLocators, new ShadowHop()]);
     }
     $$(cssSelector: string){
-        return new ChainedElementAll(this, By.css(cssSelector))
+        return new ElementAll(By.css(cssSelector), this._webDriver, this)
     }
     xpathAll(xpath: string){
-        return new ChainedElementAll(this, By.xpath(xpath))
+        return new ElementAll(By.xpath(xpath), this._webDriver, this)
     }
     xpath(xpath: string): Element{
-        return new Element([...this.chainedLocators, By.xpath(xpath)]);
+        return this.createChild([...this.chainedLocators, By.xpath(xpath)]);
     }
     element(locator: Locator | Element){
         if (locator instanceof  Element){
-            return new Element([...this.chainedLocators, locator.currentLocator]);
+            return this.createChild([...this.chainedLocators, locator.currentLocator]);
         }
-        return new Element([...this.chainedLocators, locator]);
+        return this.createChild([...this.chainedLocators, locator]);
     }
     async all(element: Locator | Element): Promise<WebElement[]>{
         if (element instanceof  Element){
@@ -483,98 +1254,235 @@ class Element {
             return (await this.retryGetElement()).findElements(element);
         }
     }
-    async retryFindElements(locator: Locator){
-        const preservedStack = getCleanStack(new Error().stack);
-        let currentException ;
-        const retryTimeoutCondition = timeoutCondition();
-        while (retryTimeoutCondition()){
-            try {
-                return await (await this.getElement()).findElements(locator);
-            } catch (e){
-                if(e instanceof InvalidSelectorError) throw e;
-                e.stack = preservedStack;
-                currentException = e;
-            }
-        }
-        throw currentException;
+    async retryFindElements(locator: Locator, retryOptions?: RetryOptions){
+        return this.retry('retryFindElements', async () => (await this.getElement()).findElements(locator), retryOptions);
     }
 }
 
-class ChainedElementAll {
-    private internalElement : Element;
-    private locator: Locator;
-    constructor(element: Element, locator: Locator) {
-        this.internalElement = element;
-        this.locator = locator;
+type ElementPredicate = (element: Element, index: number) => boolean | Promise<boolean>;
+
+class ElementAllItem extends Element {
+    /*
+    * Single element of a collection, re-resolves the whole collection
+    * on every attempt so stale elements are picked up again
+    * */
+    private readonly description: string;
+    private readonly resolve: () => Promise<WebElement>;
+    private readonly snapshot: boolean;
+    private readonly collection: ElementAll | null;
+    constructor(description: string, resolve: () => Promise<WebElement>, webDriver: Driver, snapshot = false,
+                collection: ElementAll | null = null) {
+        /*
+        * Snapshot items are not reported on failure, their caller retries and reports instead.
+        * Items retry with the policy of their collection
+        * */
+        super([], webDriver);
+        this.description = description;
+        this.resolve = resolve;
+        this.snapshot = snapshot;
+        this.collection = collection;
     }
-    async findElements(){
-        return this.internalElement.retryFindElements(this.locator);
+    protected get basePolicy(): RetryPolicy{
+        return this.collection ? this.collection.retryPolicy : super.basePolicy;
     }
-    async getSortedElementsTexts(){
-        const elementTextList = [];
-        for (let webElement of (await this.internalElement.findElements(this.locator))){
-            elementTextList.push(await webElement.getText());
-        }
-        return elementTextList.sort();
+    protected get reportsFailures(): boolean{
+        return !this.snapshot;
     }
-    async retryGetSortedElementsTexts(){
-        const preservedStack = getCleanStack(new Error().stack);
-        let currentException ;
-        const retryTimeoutCondition = timeoutCondition();
-        while (retryTimeoutCondition()){
-            try {
-                return await this.getSortedElementsTexts();
-            } catch (e){
-                if(e instanceof InvalidSelectorError) throw e;
-                e.stack = preservedStack;
-                currentException = e;
+    protected get childParent(): Element | null{
+        return this;
+    }
+    protected copy(): Element{
+        return new ElementAllItem(this.description, this.resolve, this.webDriver, this.snapshot, this.collection);
+    }
+    as(name: string): Element{
+        const item = new ElementAllItem(`'${name}' (${this.description})`, this.resolve, this.webDriver, this.snapshot,
+            this.collection);
+        item._retryPolicy = this._retryPolicy;
+        return item;
+    }
+    async getElement(): Promise<WebElement>{
+        try {
+            return await this.resolve();
+        } catch (e) {
+            if (!e.getElementError){
+                e.message += `\nLocators chain: ${this}`;
+                e.getElementError = true;
             }
+            throw e;
         }
-        throw currentException;
-    }
-    async expectSortedListToEqual(list: string[], failMessage?: string){
-        return retryExpect(async ()=>this.retryGetSortedElementsTexts(), list.sort(), {message: failMessage, concatenateMessages: true})
     }
-    async expectElementsCountToBe(expectedCount: number, failMessage?: string){
-        return retryExpect(async ()=>(await this.findElements()).length, expectedCount, {message: failMessage, concatenateMessages: true})
+    toString(): string{
+        return this.description;
     }
 }
 
 class ElementAll {
     private ownLocator : Locator;
-    constructor(locator: Locator) {
+    private _webDriver: Driver;
+    private _name: string | null = null;
+    private readonly parent: Element | null;
+    constructor(locator: Locator, webDriver: Driver = currentDefaultDriver(), parent: Element | null = null) {
         this.ownLocator = locator;
+        this._webDriver = webDriver;
+        this.parent = parent;
+    }
+    get webDriver(){
+        return this._webDriver;
     }
-    async findElements(){
-        return driver.driver.findElements(this.ownLocator);
+    get locator(){
+        return this.ownLocator;
+    }
+    get retryPolicy(): RetryPolicy{
+        return this.parent ? this.parent.retryPolicy : this._webDriver.retryPolicy;
+    }
+    protected describe(): string{
+        return this.parent ? `${this.parent} All: ${this.ownLocator}` : `All: ${this.ownLocator}`;
+    }
+    toString(): string{
+        const description = this.describe();
+        return this._name ? `'${this._name}' (${description})` : description;
+    }
+    protected copy(): ElementAll{
+        return new ElementAll(this.ownLocator, this._webDriver, this.parent);
+    }
+    as(name: string): ElementAll{
+        /*
+        * Returns a copy of the collection shown by name in errors and reports, its items keep the name
+        * */
+        const all = this.copy();
+        all._name = name;
+        return all;
+    }
+    private async retry<T>(action: string, attempt: () => Promise<T>, retryOptions?: RetryOptions): Promise<T>{
+        const stack = getCleanStack(new Error().stack);
+        const retry = this._webDriver.startRetry(`ElementAll.${action}`, this.retryPolicy.with(retryOptions), String(this));
+        return retry.run(attempt, {
+            stack,
+            failure: e => this._webDriver.failure(e, `ElementAll.${action}`, retry, String(this))
+        });
+    }
+    async getElements(): Promise<WebElement[]>{
+        /*
+        * Resolves collection once without retries
+        * */
+        if (this.parent){
+            return this.parent.findElements(this.ownLocator);
+        }
+        await this._webDriver.restoreFrameContext();
+        return this._webDriver.driver.findElements(this.ownLocator);
+    }
+    async findElements(retryOptions?: RetryOptions): Promise<WebElement[]>{
+        return this.retry('findElements', () => this.getElements(), retryOptions);
+    }
+    async count(retryOptions?: RetryOptions): Promise<number>{
+        return (await this.findElements(retryOptions)).length;
+    }
+    get(index: number): Element{
+        /*
+        * Negative index counts from the end of the collection
+        * */
+        const description = `${this}[${index}]`;
+        return new ElementAllItem(description, async () => {
+            const webElements = await this.getElements();
+            const webElement = webElements[index < 0 ? webElements.length + index : index];
+            if (!webElement){
+                throw new NoSuchElementError(`No element at index ${index}, collection size is ${webElements.length}`);
+            }
+            return webElement;
+        }, this._webDriver, false, this);
+    }
+    first(): Element{
+        return this.get(0);
+    }
+    last(): Element{
+        return this.get(-1);
+    }
+    filter(predicate: ElementPredicate): ElementAll{
+        return new FilteredElementAll(this, predicate);
+    }
+    find(predicate: ElementPredicate): Element{
+        return this.filter(predicate).first();
+    }
+    async map<T>(callback: (element: Element, index: number) => T | Promise<T>): Promise<T[]>{
+        const results: T[] = [];
+        const size = await this.count();
+        for (let index = 0; index < size; index++){
+            results.push(await callback(this.get(index), index));
+        }
+        return results;
+    }
+    async each(callback: (element: Element, index: number) => void | Promise<void>): Promise<void>{
+        await this.map(callback);
     }
     async getSortedElementsTexts(){
         const elementTextList = [];
-        for (let webElement of (await driver.driver.findElements(this.ownLocator))){
+        for (let webElement of (await this.getElements())){
             elementTextList.push(await webElement.getText());
         }
         return elementTextList.sort();
     }
-    async retryGetSortedElementsTexts(){
-        const preservedStack = getCleanStack(new Error().stack);
-        let currentException ;
-        const retryTimeoutCondition = timeoutCondition();
-        while (retryTimeoutCondition()){
-            try {
-                return await this.getSortedElementsTexts();
-            } catch (e){
-                if(e instanceof InvalidSelectorError) throw e;
-                e.stack = preservedStack;
-                currentException = e;
+    async retryGetSortedElementsTexts(retryOptions?: RetryOptions){
+        return this.retry('retryGetSortedElementsTexts', () => this.getSortedElementsTexts(), retryOptions);
+    }
+    async expectSortedListToEqual(list: string[], failMessage?: string, retryOptions?: RetryOptions){
+        return retryExpect(async ()=>this.retryGetSortedElementsTexts(), list.sort(), {message: failMessage,
+            retryPolicy: this.retryPolicy.with(retryOptions),
+            action: 'ElementAll.expectSortedListToEqual',
+            onFailure: e => this._webDriver.attachFailureArtifacts(e, 'ElementAll.expectSortedListToEqual'),
+            observer: this._webDriver.events.observe('ElementAll.expectSortedListToEqual', String(this)),
+            target: String(this)})
+    }
+    async expectSortedListToBe(list: string[], failMessage?: string, retryOptions?: RetryOptions){
+        return this.expectSortedListToEqual(list, failMessage, retryOptions);
+    }
+    async expectElementsCountToBe(expectedCount: number, failMessage?: string, retryOptions?: RetryOptions){
+        return retryExpect(async ()=>(await this.findElements()).length, expectedCount, {message: failMessage,
+            retryPolicy: this.retryPolicy.with(retryOptions),
+            action: 'ElementAll.expectElementsCountToBe',
+            onFailure: e => this._webDriver.attachFailureArtifacts(e, 'ElementAll.expectElementsCountToBe'),
+            observer: this._webDriver.events.observe('ElementAll.expectElementsCountToBe', String(this)),
+            target: String(this)})
+    }
+}
+
+class FilteredElementAll extends ElementAll {
+    private readonly source: ElementAll;
+    private readonly predicate: ElementPredicate;
+    constructor(source: ElementAll, predicate: ElementPredicate) {
+        super(source.locator, source.webDriver);
+        this.source = source;
+        this.predicate = predicate;
+    }
+    get retryPolicy(): RetryPolicy{
+        return this.source.retryPolicy;
+    }
+    protected describe(): string{
+        return `${this.source}.filter(${this.predicate.name || 'predicate'})`;
+    }
+    protected copy(): ElementAll{
+        return new FilteredElementAll(this.source, this.predicate);
+    }
+    async getElements(): Promise<WebElement[]>{
+        /*
+        * Predicate gets a snapshot of each element without own retries,
+        * a stale element fails the whole resolution which is retried by the caller
+        * */
+        const matched = [];
+        for (const [index, webElement] of (await this.source.getElements()).entries()){
+            const snapshot = new ElementAllItem(`${this.source}[${index}]`, async () => webElement, this.webDriver, true)
+                .withRetryPolicy({maxAttempts: 1});
+            if (await this.predicate(snapshot, index)){
+                matched.push(webElement);
             }
         }
-        throw currentException;
-    }
-    async expectSortedListToBe(list: string[], failMessage?: string){
-        return retryExpect(async ()=>this.retryGetSortedElementsTexts(), list.sort(), {message: failMessage, concatenateMessages: true})
+        return matched;
     }
 }
 
+/* ElementAll chained from an element used to be a separate class */
+const ChainedElementAll = ElementAll;
+type ChainedElementAll = ElementAll;
+
 function $(cssSelector: string){
     return new Element(By.css(cssSelector))
 }
@@ -584,24 +1492,62 @@ function xpath(xpath: string){
 function element(locator: Locator){
     return  new Element(locator);
 }
+function frame(locator: Locator | string){
+    return new Element([new FrameHop(typeof locator === 'string' ? By.css(locator) : locator)]);
+}
 function $$(cssSelector: string){
     return new ElementAll(By.css(cssSelector));
 }
 function xx(xpath: string){
-    return new ElementAll(By.css(xpath));
+    return new ElementAll(By.xpath(xpath));
+}
+
+declare global {
+    /* test runner environments living outside of the test module registry find the default driver here */
+    var webDriverRetryWrapperDriver: Driver | undefined;
 }
 
 const driver = new Driver();
+global.webDriverRetryWrapperDriver = driver;
+const defaultDriverContext = new AsyncLocalStorage<Driver>();
+
+function currentDefaultDriver(): Driver{
+    return defaultDriverContext.getStore() || driver;
+}
+
+async function withDefaultDriver<T>(webDriver: Driver, fn: () => Promise<T>): Promise<T>{
+    /*
+    * Elements created without explicit driver inside fn are bound to the given one,
+    * concurrent calls each keep their own driver
+    * */
+    return defaultDriverContext.run(webDriver, fn);
+}
+
 export {
     driver,
+    Driver,
+    withDefaultDriver,
     $,
     $$,
     xpath,
     xx,
     element,
+    frame,
     Element,
     ChainedElementAll,
     ElementAll,
+    ElementPredicate,
+    retryExpect,
+    retryAssert,
+    expectOptions,
+    WindowMatcher,
     timeoutCondition,
-    TimeConstants
+    TimeConstants,
+    RetryPolicy,
+    RetryPolicyOptions,
+    RetryOptions,
+    withDeadline,
+    DeadlineExceededError,
+    SessionLostError,
+    ScreenshotOptions
 }
@@ -1,3 +1,5 @@
+import {ConfigError} from "./config";
+
 enum BrowsersAliases {
     chrome = "chrome",
     firefox = "firefox",
@@ -33,8 +35,95 @@ const capabilities: capabilities = {
     }
 };
 
+type capabilitiesOverrides = {
+    [key: string]: any
+}
+
+type browserArgs = string[] | {
+    [key in BrowsersAliases]?: string[]
+}
+
+type resolveOptions = {
+    overrides?: capabilitiesOverrides
+    headless?: boolean
+    args?: browserArgs
+}
+
+/* ie and safari drivers take no command line arguments at all */
+const vendorOptions: {
+    readonly [key in BrowsersAliases]: {
+        optionsKey?: string;
+        headlessArg?: string;
+    }
+} = {
+    chrome: {
+        optionsKey: "goog:chromeOptions",
+        headlessArg: "--headless"
+    },
+    firefox: {
+        optionsKey: "moz:firefoxOptions",
+        headlessArg: "-headless"
+    },
+    edge: {
+        optionsKey: "ms:edgeOptions",
+        headlessArg: "--headless"
+    },
+    ie: {},
+    safari: {}
+};
+
+function isPlainObject(value: any): value is {[key: string]: any}{
+    return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function deepMerge(target: {[key: string]: any}, ...sources: {[key: string]: any}[]){
+    /*
+    * Nested objects are merged, arrays and primitives are replaced
+    * */
+    for (const source of sources){
+        for (const [key, value] of Object.entries(source)){
+            if (isPlainObject(value)){
+                target[key] = deepMerge(isPlainObject(target[key]) ? target[key] : {}, value);
+            } else {
+                target[key] = Array.isArray(value) ? [...value] : value;
+            }
+        }
+    }
+    return target;
+}
+
+function resolveCapabilities(browser: BrowsersAliases, {overrides = {}, headless = false, args = []}: resolveOptions = {}){
+    /*
+    * Overrides may hold global capabilities and per browser ones under a browser alias key,
+    * per browser capabilities win over global ones
+    * */
+    const globalOverrides = Object.entries(overrides)
+        .filter(([key]) => !(key in BrowsersAliases))
+        .reduce((result, [key, value]) => ({...result, [key]: value}), {});
+    const resolved = deepMerge({}, capabilities[browser], globalOverrides, overrides[browser] || {});
+    const {optionsKey, headlessArg} = vendorOptions[browser];
+    const extraArgs = Array.isArray(args) ? [...args] : [...(args[browser] || [])];
+    if (headless){
+        if (!headlessArg){
+            throw new ConfigError('headless', `Headless mode is not supported by ${browser}`);
+        }
+        extraArgs.push(headlessArg);
+    }
+    if (extraArgs.length){
+        if (!optionsKey){
+            throw new ConfigError('browserArgs', `${browser} does not accept browser arguments, got: ${extraArgs.join(' ')}`);
+        }
+        const options = resolved[optionsKey] = resolved[optionsKey] || {};
+        options.args = [...(options.args || []), ...extraArgs.filter(arg => !(options.args || []).includes(arg))];
+    }
+    return resolved as capabilities[BrowsersAliases];
+}
+
 export {
     capabilities,
+    capabilitiesOverrides,
+    browserArgs,
+    resolveCapabilities,
     BrowsersAliases
 }
 
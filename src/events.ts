@@ -0,0 +1,137 @@
+import {EventEmitter} from "events";
+import {promises as fs} from "fs";
+import * as path from "path";
+import {RetryObserver} from "./retryPolicy";
+
+type ActionEvent = {
+    action: string
+    target: string
+    startTime: number
+}
+
+type AttemptEvent = ActionEvent & {
+    attempt: number
+    elapsed: number
+    error: any
+}
+
+type ActionEndEvent = ActionEvent & {
+    attempts: number
+    elapsed: number
+    passed: boolean
+    error?: any
+}
+
+type QuitEvent = {
+    sessionId: string | null
+}
+
+type TestEvent = {
+    name: string
+    passed?: boolean
+}
+
+type BaselineWrittenEvent = {
+    name: string
+    path: string
+}
+
+type SessionLostEvent = {
+    action: string
+    error: any
+    recovered: boolean
+    recoveryError?: any
+}
+
+class DriverEvents extends EventEmitter {
+    on(event: 'actionStart', listener: (event: ActionEvent) => void): this;
+    on(event: 'attempt', listener: (event: AttemptEvent) => void): this;
+    on(event: 'actionEnd', listener: (event: ActionEndEvent) => void): this;
+    on(event: 'quit', listener: (event: QuitEvent) => void): this;
+    on(event: 'testStart', listener: (event: TestEvent) => void): this;
+    on(event: 'testEnd', listener: (event: TestEvent) => void): this;
+    on(event: 'sessionLost', listener: (event: SessionLostEvent) => void): this;
+    on(event: 'baselineWritten', listener: (event: BaselineWrittenEvent) => void): this;
+    on(event: string | symbol, listener: (...args: any[]) => void): this{
+        return super.on(event, listener);
+    }
+    observe(action: string, target: string): RetryObserver{
+        /*
+        * Emits actionStart right away, attempt events for every swallowed error
+        * and actionEnd once the retry is done or failed
+        * */
+        const actionEvent: ActionEvent = {action, target, startTime: +new Date()};
+        this.emit('actionStart', actionEvent);
+        return {
+            attemptFailed: (retry, error) => {
+                const attemptEvent: AttemptEvent = {...actionEvent, attempt: retry.attempt, elapsed: retry.elapsed, error};
+                this.emit('attempt', attemptEvent);
+            },
+            finished: (retry, passed, error) => {
+                const actionEndEvent: ActionEndEvent = {...actionEvent, attempts: retry.attempt, elapsed: retry.elapsed,
+                    passed, error};
+                this.emit('actionEnd', actionEndEvent);
+            }
+        };
+    }
+}
+
+function serializeError(error: any){
+    if (!error){
+        return undefined;
+    }
+    return {name: error.name, message: error.message};
+}
+
+class TraceReporter {
+    /*
+    * Collects every event of a driver session and writes them as one JSON file on quit,
+    * events are labeled with the test running when a test runner integration reports it
+    * */
+    private entries: object[] = [];
+    private test: string | undefined;
+    readonly directory: string;
+    constructor(directory: string) {
+        this.directory = directory;
+    }
+    attach(events: DriverEvents){
+        events.on('testStart', event => {
+            this.test = event.name;
+            this.entries.push({type: 'testStart', ...event});
+        });
+        events.on('testEnd', event => {
+            this.entries.push({type: 'testEnd', ...event});
+            this.test = undefined;
+        });
+        events.on('actionStart', event => this.entries.push({type: 'actionStart', test: this.test, ...event}));
+        events.on('attempt', event => this.entries.push({type: 'attempt', test: this.test, ...event,
+            error: serializeError(event.error)}));
+        events.on('actionEnd', event => this.entries.push({type: 'actionEnd', test: this.test, ...event,
+            error: serializeError(event.error)}));
+        events.on('sessionLost', event => this.entries.push({type: 'sessionLost', test: this.test, ...event,
+            error: serializeError(event.error), recoveryError: serializeError(event.recoveryError)}));
+        events.on('baselineWritten', event => this.entries.push({type: 'baselineWritten', test: this.test, ...event}));
+        events.on('quit', event => this.write(event.sessionId).catch(e =>
+            console.error(`Trace is not written: ${e.message}`)));
+        return this;
+    }
+    async write(sessionId: string | null): Promise<string>{
+        await fs.mkdir(this.directory, {recursive: true});
+        const filePath = path.join(this.directory, `trace-${sessionId || +new Date()}.json`);
+        await fs.writeFile(filePath, JSON.stringify({sessionId, events: this.entries}, null, 2));
+        this.entries = [];
+        return filePath;
+    }
+}
+
+export {
+    DriverEvents,
+    TraceReporter,
+    ActionEvent,
+    AttemptEvent,
+    ActionEndEvent,
+    QuitEvent,
+    TestEvent,
+    SessionLostEvent,
+    BaselineWrittenEvent
+}
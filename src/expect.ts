@@ -0,0 +1,142 @@
+import * as assert from "assert";
+import {inspect} from "util";
+import {Element, ElementAll, retryAssert} from "./driver";
+
+type MatcherOptions = {
+    timeout?: number
+    message?: string
+}
+
+type Expected = string | RegExp;
+
+type ActualResult<T> = {
+    value?: T
+    error?: any
+}
+
+function matchesExpected(actual: string | null, expected: Expected){
+    if (actual === null){
+        return false;
+    }
+    return expected instanceof RegExp ? expected.test(actual) : actual === expected;
+}
+
+abstract class Matchers<Target extends Element | ElementAll> {
+    protected readonly target: Target;
+    protected readonly negated: boolean;
+    constructor(target: Target, negated = false) {
+        this.target = target;
+        this.negated = negated;
+    }
+    protected async match<T>(matcher: string, getActual: () => Promise<T>, matches: (actual: T) => boolean,
+                             expected: string, {timeout, message}: MatcherOptions = {}){
+        /*
+        * Missing element is retried as a failed match, so "not" matchers pass on it
+        * */
+        const webDriver = this.target.webDriver;
+        const retryPolicy = this.target.retryPolicy;
+        const target = String(this.target);
+        const action = `expect.${this.negated ? 'not.' : ''}${matcher}`;
+        const getResult = async (): Promise<ActualResult<T>> => {
+            try {
+                return {value: await getActual()};
+            } catch (e) {
+                if (!retryPolicy.isRetriable(e)) throw e;
+                return {error: e};
+            }
+        };
+        return retryAssert(getResult, ({value, error}) => {
+            const matched = !error && matches(value as T);
+            if (matched !== this.negated){
+                return;
+            }
+            const lastActual = error ? `element is not found (${String(error.message).split('\n')[0]})` : inspect(value);
+            throw new assert.AssertionError({
+                message: `${action}(${expected}) failed\n` +
+                    `Expected: ${this.negated ? 'not ' : ''}${expected}\n` +
+                    `Last actual: ${lastActual}\n` +
+                    `Locators chain: ${target}`,
+                actual: value,
+                expected,
+                operator: matcher
+            });
+        }, {
+            message,
+            action,
+            timeout,
+            retryPolicy,
+            onFailure: e => webDriver.attachFailureArtifacts(e, action,
+                this.target instanceof Element ? this.target : undefined),
+            observer: webDriver.events.observe(action, target),
+            sessionGuard: webDriver.sessionGuard(action),
+            target
+        });
+    }
+}
+
+class ElementMatchers extends Matchers<Element> {
+    get not(): ElementMatchers{
+        return new ElementMatchers(this.target, !this.negated);
+    }
+    async toHaveText(expected: Expected, options?: MatcherOptions){
+        return this.match('toHaveText', async () => (await this.target.getElement()).getText(),
+            actual => matchesExpected(actual, expected), inspect(expected), options);
+    }
+    async toContainText(expected: string, options?: MatcherOptions){
+        return this.match('toContainText', async () => (await this.target.getElement()).getText(),
+            actual => actual.includes(expected), inspect(expected), options);
+    }
+    async toHaveAttribute(name: string, expected?: Expected, options?: MatcherOptions){
+        /*
+        * Without expected value only checks the attribute is present
+        * */
+        return this.match('toHaveAttribute', async () => (await this.target.getElement()).getAttribute(name),
+            actual => expected === undefined ? actual !== null : matchesExpected(actual, expected),
+            expected === undefined ? name : `${name}=${inspect(expected)}`, options);
+    }
+    async toHaveClass(expected: Expected, options?: MatcherOptions){
+        return this.match('toHaveClass', async () => (await this.target.getElement()).getAttribute('class'),
+            actual => expected instanceof RegExp ?
+                matchesExpected(actual, expected) :
+                (actual || '').split(/\s+/).includes(expected),
+            inspect(expected), options);
+    }
+    async toHaveCssValue(property: string, expected: Expected, options?: MatcherOptions){
+        return this.match('toHaveCssValue', async () => (await this.target.getElement()).getCssValue(property),
+            actual => matchesExpected(actual, expected), `${property}: ${inspect(expected)}`, options);
+    }
+    async toBeEnabled(options?: MatcherOptions){
+        return this.match('toBeEnabled', async () => (await this.target.getElement()).isEnabled(),
+            actual => actual, 'enabled', options);
+    }
+    async toBeVisible(options?: MatcherOptions){
+        return this.match('toBeVisible', async () => (await this.target.getElement()).isDisplayed(),
+            actual => actual, 'visible', options);
+    }
+}
+
+class ElementAllMatchers extends Matchers<ElementAll> {
+    get not(): ElementAllMatchers{
+        return new ElementAllMatchers(this.target, !this.negated);
+    }
+    async toHaveCount(expected: number, options?: MatcherOptions){
+        return this.match('toHaveCount', async () => (await this.target.getElements()).length,
+            actual => actual === expected, String(expected), options);
+    }
+}
+
+function expect(target: Element): ElementMatchers;
+function expect(target: ElementAll): ElementAllMatchers;
+function expect(target: Element | ElementAll){
+    if (target instanceof ElementAll){
+        return new ElementAllMatchers(target);
+    }
+    return new ElementMatchers(target);
+}
+
+export {
+    expect,
+    ElementMatchers,
+    ElementAllMatchers,
+    MatcherOptions
+}
@@ -0,0 +1,62 @@
+import {error} from "selenium-webdriver";
+import {DeadlineExceededError, DeadlineStopReason} from "./deadline";
+import {RetryAttempts} from "./retryPolicy";
+import TimeoutError = error.TimeoutError;
+
+type FailureDetails = {
+    action: string
+    target?: string
+    message?: string | null
+    attempts?: number
+    elapsed?: number
+    timeout?: number
+    stopped?: DeadlineStopReason | null
+}
+
+function describeLastError(lastError: any, target?: string){
+    /*
+    * Locators chain lines appended by the retry loops repeat the target line
+    * */
+    const message = String(lastError?.message ?? lastError)
+        .split('\n')
+        .filter(line => line.trim() && (!target || line !== `Locators chain: ${target}`))
+        .join('\n    ');
+    return lastError?.name ? `${lastError.name}: ${message}` : message;
+}
+
+function formatFailure(lastError: any, {action, target, message, attempts, elapsed, timeout, stopped}: FailureDetails){
+    return [
+        `${action} failed`,
+        target ? `  Target: ${target}` : '',
+        message ? `  Message: ${message}` : '',
+        attempts !== undefined ? `  Attempts: ${attempts} in ${elapsed}ms, timeout ${timeout}ms` : '',
+        stopped ? `  Stopped: ${stopped === 'aborted' ? 'aborted by signal' : 'shared deadline exceeded'}` : '',
+        lastError !== undefined ? `  Last error: ${describeLastError(lastError, target)}` : ''
+    ].filter(line => line).join('\n');
+}
+
+function retryDetails(retry?: RetryAttempts){
+    return retry ? {attempts: retry.attempt, elapsed: retry.elapsed, timeout: retry.policy.timeout, stopped: retry.stopReason} : {};
+}
+
+function rebuildFailure(failure: any, details: FailureDetails, lastError: any = failure){
+    /*
+    * Error class is kept so callers still catch by type, the message is rebuilt once
+    * from the action, target, attempts and the last swallowed error.
+    * A retry cut by the shared deadline becomes DeadlineExceededError which outer retries pass through
+    * */
+    if (failure?.failureDetails){
+        return failure;
+    }
+    const error = details.stopped ? new DeadlineExceededError(details.stopped) :
+        failure instanceof Error ? failure : new TimeoutError();
+    error.message = formatFailure(lastError, details);
+    return Object.assign(error, {failureDetails: details});
+}
+
+export {
+    FailureDetails,
+    formatFailure,
+    rebuildFailure,
+    retryDetails
+}
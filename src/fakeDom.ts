@@ -0,0 +1,385 @@
+import {error} from "selenium-webdriver";
+import InvalidSelectorError = error.InvalidSelectorError;
+
+type FakeRect = {
+    x: number
+    y: number
+    width: number
+    height: number
+}
+
+type FakeAttributes = {[name: string]: string};
+
+type FakeEventType = 'click' | 'dblclick' | 'contextmenu' | 'hover' | 'drop' | 'input';
+
+type FakeEventHandler = (element: FakeElement, related?: FakeElement) => void;
+
+class FakeElement {
+    /*
+    * Node of the in-memory page, behaviour methods script what the fake browser does
+    * with it and return the element for chaining
+    * */
+    readonly tag: string;
+    readonly attributes: FakeAttributes;
+    readonly children: FakeElement[] = [];
+    readonly styles: {[property: string]: string} = {};
+    parent: FakeElement | null = null;
+    document: FakeDocument;
+    text: string;
+    value = '';
+    displayed = true;
+    enabled = true;
+    selected = false;
+    present = true;
+    rect: FakeRect = {x: 0, y: 0, width: 100, height: 20};
+    shadowRoot: FakeElement[] | null = null;
+    frameDocument: FakeDocument | null = null;
+    staleAccesses = 0;
+    interceptedClicks = 0;
+    interceptedBy = 'div';
+    private handlers: {[type: string]: FakeEventHandler[]} = {};
+    constructor(document: FakeDocument, tag: string, attributes: FakeAttributes = {}, text = '') {
+        this.document = document;
+        this.tag = tag.toLowerCase();
+        this.attributes = {...attributes};
+        this.text = text;
+        if (this.tag === 'input' || this.tag === 'textarea'){
+            this.value = attributes.value || '';
+        }
+    }
+    append(tag: string, attributes?: FakeAttributes, text?: string): FakeElement{
+        const child = new FakeElement(this.document, tag, attributes, text);
+        child.parent = this;
+        this.children.push(child);
+        return child;
+    }
+    appendShadow(tag: string, attributes?: FakeAttributes, text?: string): FakeElement{
+        const child = new FakeElement(this.document, tag, attributes, text);
+        child.parent = this;
+        this.shadowRoot = this.shadowRoot || [];
+        this.shadowRoot.push(child);
+        return child;
+    }
+    frame(build: (document: FakeDocument) => void): FakeElement{
+        /*
+        * Turns the element into an iframe with its own document
+        * */
+        this.frameDocument = new FakeDocument(this.document.url, this.document.clock);
+        build(this.frameDocument);
+        return this;
+    }
+    remove(){
+        if (this.parent){
+            const siblings = this.parent.shadowRoot?.includes(this) ? this.parent.shadowRoot : this.parent.children;
+            siblings.splice(siblings.indexOf(this), 1);
+            this.parent = null;
+        }
+        return this;
+    }
+    get isConnected(): boolean{
+        let node: FakeElement = this;
+        while (node.parent){
+            node = node.parent;
+        }
+        return node === this.document.root;
+    }
+    get isPresent(): boolean{
+        /*
+        * Not present elements are not found, like elements which are not rendered yet
+        * */
+        for (let node: FakeElement | null = this; node; node = node.parent){
+            if (!node.present) return false;
+        }
+        return this.isConnected;
+    }
+    get isDisplayed(): boolean{
+        for (let node: FakeElement | null = this; node; node = node.parent){
+            if (!node.displayed) return false;
+        }
+        return true;
+    }
+    get textContent(): string{
+        if (!this.isDisplayed){
+            return '';
+        }
+        return [this.text, ...this.children.filter(child => child.present).map(child => child.textContent)]
+            .filter(text => text)
+            .join(this.tag === 'ul' || this.tag === 'ol' || this.tag === 'tr' ? '\n' : ' ');
+    }
+    getAttribute(name: string): string | null{
+        if (name === 'value' && (this.tag === 'input' || this.tag === 'textarea' || this.tag === 'option')){
+            return this.tag === 'option' ? (this.attributes.value ?? this.text) : this.value;
+        }
+        if (name === 'selected' || name === 'checked'){
+            return this.selected ? 'true' : null;
+        }
+        if (name === 'disabled'){
+            return this.enabled ? null : 'true';
+        }
+        return this.attributes[name] ?? null;
+    }
+    get classes(): string[]{
+        return (this.attributes.class || '').split(/\s+/).filter(name => name);
+    }
+    after(ms: number, callback: (element: FakeElement) => void): FakeElement{
+        this.document.clock.schedule(ms, () => callback(this));
+        return this;
+    }
+    appearAfter(ms: number): FakeElement{
+        this.present = false;
+        return this.after(ms, element => element.present = true);
+    }
+    disappearAfter(ms: number): FakeElement{
+        return this.after(ms, element => element.present = false);
+    }
+    showAfter(ms: number): FakeElement{
+        this.displayed = false;
+        return this.after(ms, element => element.displayed = true);
+    }
+    enableAfter(ms: number): FakeElement{
+        this.enabled = false;
+        return this.after(ms, element => element.enabled = true);
+    }
+    changeTextAfter(ms: number, text: string): FakeElement{
+        return this.after(ms, element => element.text = text);
+    }
+    moveAfter(ms: number, rect: Partial<FakeRect>): FakeElement{
+        return this.after(ms, element => element.rect = {...element.rect, ...rect});
+    }
+    staleOnFirstAccess(times = 1): FakeElement{
+        /*
+        * Commands with already found references fail as stale, a new search finds the element again
+        * */
+        this.staleAccesses = times;
+        return this;
+    }
+    interceptClicks(times: number, by = 'div'): FakeElement{
+        this.interceptedClicks = times;
+        this.interceptedBy = by;
+        return this;
+    }
+    on(type: FakeEventType, handler: FakeEventHandler): FakeElement{
+        (this.handlers[type] = this.handlers[type] || []).push(handler);
+        return this;
+    }
+    onClick(handler: FakeEventHandler): FakeElement{
+        return this.on('click', handler);
+    }
+    dispatch(type: FakeEventType, related?: FakeElement){
+        for (const handler of this.handlers[type] || []){
+            handler(this, related);
+        }
+        if (type === 'click' && this.parent && this.parent !== this.document.root){
+            this.parent.dispatch('click');
+        }
+    }
+    toString(): string{
+        const id = this.attributes.id ? `#${this.attributes.id}` : '';
+        return `<${this.tag}${id}${this.classes.map(name => `.${name}`).join('')}>`;
+    }
+}
+
+class FakeClock {
+    /*
+    * Scheduled changes are applied lazily before every command, so no timers are left running
+    * */
+    private tasks: {due: number, callback: () => void}[] = [];
+    schedule(ms: number, callback: () => void){
+        this.tasks.push({due: +new Date() + ms, callback});
+    }
+    tick(){
+        const now = +new Date();
+        const dueTasks = this.tasks.filter(task => task.due <= now).sort((a, b) => a.due - b.due);
+        this.tasks = this.tasks.filter(task => task.due > now);
+        dueTasks.forEach(task => task.callback());
+    }
+}
+
+class FakeDocument {
+    readonly root: FakeElement;
+    readonly body: FakeElement;
+    readonly clock: FakeClock;
+    url: string;
+    title = '';
+    ready = true;
+    constructor(url: string, clock = new FakeClock()) {
+        this.url = url;
+        this.clock = clock;
+        this.root = new FakeElement(this, 'html');
+        this.body = this.root.append('body');
+    }
+    querySelector(selector: string, scope: FakeElement[] = [this.root]): FakeElement | null{
+        return this.querySelectorAll(selector, scope)[0] || null;
+    }
+    querySelectorAll(selector: string, scope: FakeElement[] = [this.root]): FakeElement[]{
+        return findByCss(scope, selector);
+    }
+    find(using: string, value: string, scope: FakeElement[] = [this.root]): FakeElement[]{
+        switch (using) {
+            case 'css selector':
+                return findByCss(scope, value);
+            case 'xpath':
+                return findByXpath(scope, value);
+            case 'tag name':
+                return findByCss(scope, value);
+            case 'link text':
+                return findByCss(scope, 'a').filter(element => element.textContent.trim() === value);
+            case 'partial link text':
+                return findByCss(scope, 'a').filter(element => element.textContent.includes(value));
+            default:
+                throw new InvalidSelectorError(`Unsupported locator strategy: ${using}`);
+        }
+    }
+    toHtml(element: FakeElement = this.root): string{
+        const attributes = Object.entries(element.attributes).map(([name, value]) => ` ${name}="${value}"`).join('');
+        const children = element.children.filter(child => child.present).map(child => this.toHtml(child)).join('');
+        return `<${element.tag}${attributes}>${element.text}${children}</${element.tag}>`;
+    }
+}
+
+function descendants(element: FakeElement): FakeElement[]{
+    const result: FakeElement[] = [];
+    for (const child of element.children){
+        if (child.present){
+            result.push(child, ...descendants(child));
+        }
+    }
+    return result;
+}
+
+function unquote(value: string){
+    return value.replace(/^(['"])(.*)\1$/, '$2');
+}
+
+type CompoundSelector = (element: FakeElement) => boolean;
+
+function parseCompound(compound: string, selector: string): CompoundSelector{
+    const parts = compound.match(/^[\w-]+|\*|#[\w-]+|\.[\w-]+|\[[^\]]+\]/g);
+    if (!parts || parts.join('') !== compound){
+        throw new InvalidSelectorError(`Fake browser does not support css selector: ${selector}`);
+    }
+    const checks = parts.map((part): CompoundSelector => {
+        if (part === '*') return () => true;
+        if (part.startsWith('#')) return element => element.attributes.id === part.slice(1);
+        if (part.startsWith('.')) return element => element.classes.includes(part.slice(1));
+        if (part.startsWith('[')){
+            const [, name, operator, value] = part.match(/^\[([\w-]+)\s*(?:([*^$~]?=)\s*(.+))?\]$/) || [];
+            if (!name){
+                throw new InvalidSelectorError(`Fake browser does not support css selector: ${selector}`);
+            }
+            return element => {
+                const actual = element.getAttribute(name);
+                const expected = value === undefined ? '' : unquote(value.trim());
+                switch (operator) {
+                    case undefined: return actual !== null;
+                    case '=': return actual === expected;
+                    case '*=': return actual !== null && actual.includes(expected);
+                    case '^=': return actual !== null && actual.startsWith(expected);
+                    case '$=': return actual !== null && actual.endsWith(expected);
+                    default: return actual !== null && actual.split(/\s+/).includes(expected);
+                }
+            };
+        }
+        return element => element.tag === part.toLowerCase();
+    });
+    return element => checks.every(check => check(element));
+}
+
+function findByCss(scope: FakeElement[], selector: string): FakeElement[]{
+    /*
+    * Supports tag, #id, .class and [attribute] compounds with descendant and child combinators
+    * */
+    const matched = new Set<FakeElement>();
+    for (const group of selector.split(',').map(part => part.trim())){
+        const tokens = group.replace(/\s*>\s*/g, ' > ').split(/\s+/).filter(token => token);
+        let current = scope;
+        let childOnly = false;
+        for (const token of tokens){
+            if (token === '>'){
+                childOnly = true;
+                continue;
+            }
+            const matches = parseCompound(token, selector);
+            const candidates = current.flatMap(element => childOnly ?
+                element.children.filter(child => child.present) : descendants(element));
+            current = [...new Set(candidates.filter(matches))];
+            childOnly = false;
+        }
+        current.forEach(element => matched.add(element));
+    }
+    return [...matched];
+}
+
+function parseXpathPredicate(predicate: string, xpath: string): CompoundSelector{
+    const attribute = predicate.match(/^@([\w-]+)\s*=\s*(['"])(.*)\2$/);
+    if (attribute) return element => element.getAttribute(attribute[1]) === attribute[3];
+    const hasAttribute = predicate.match(/^@([\w-]+)$/);
+    if (hasAttribute) return element => element.getAttribute(hasAttribute[1]) !== null;
+    const text = predicate.match(/^(?:text\(\)|\.)\s*=\s*(['"])(.*)\1$/);
+    if (text) return element => element.textContent.trim() === text[2];
+    const not = predicate.match(/^not\((.+)\)$/);
+    if (not){
+        const negated = parseXpathPredicate(not[1].trim(), xpath);
+        return element => !negated(element);
+    }
+    const child = predicate.match(/^[\w-]+$/);
+    if (child) return element => element.children.some(each => each.present && each.tag === child[0].toLowerCase());
+    const contains = predicate.match(/^contains\(\s*(text\(\)|\.|@[\w-]+)\s*,\s*(['"])(.*)\2\s*\)$/);
+    if (contains){
+        const [, source, , value] = contains;
+        return element => {
+            const actual = source.startsWith('@') ? element.getAttribute(source.slice(1)) : element.textContent;
+            return actual !== null && actual.includes(value);
+        };
+    }
+    throw new InvalidSelectorError(`Fake browser does not support xpath: ${xpath}`);
+}
+
+function applyXpathPredicate(elements: FakeElement[], predicate: string, xpath: string): FakeElement[]{
+    /*
+    * Positions count among the children one context element got for the step
+    * */
+    if (/^\d+$/.test(predicate)) return elements.slice(Number(predicate) - 1, Number(predicate));
+    if (predicate === 'last()') return elements.slice(-1);
+    return elements.filter(parseXpathPredicate(predicate, xpath));
+}
+
+function findByXpathPath(scope: FakeElement[], path: string, xpath: string): FakeElement[]{
+    const steps = path.replace(/^\./, '').match(/\/\/?[^/\[]+(?:\[[^\]]+\])*/g);
+    if (!steps || steps.join('') !== path.replace(/^\./, '')){
+        throw new InvalidSelectorError(`Fake browser does not support xpath: ${xpath}`);
+    }
+    let current = scope;
+    for (const step of steps){
+        const [, axis, tag, predicatesSource] = step.match(/^(\/\/?)([\w-]+|\*)((?:\[[^\]]+\])*)$/) || [];
+        if (!axis){
+            throw new InvalidSelectorError(`Fake browser does not support xpath: ${xpath}`);
+        }
+        const predicates = (predicatesSource.match(/\[[^\]]+\]/g) || []).map(predicate => predicate.slice(1, -1).trim());
+        const contexts = current.flatMap(element => axis === '//' ? [element, ...descendants(element)] : [element]);
+        current = [...new Set(contexts.flatMap(context => predicates.reduce(
+            (elements, predicate) => applyXpathPredicate(elements, predicate, xpath),
+            context.children.filter(child => child.present && (tag === '*' || child.tag === tag.toLowerCase())))))];
+    }
+    return current;
+}
+
+function findByXpath(scope: FakeElement[], xpath: string): FakeElement[]{
+    /*
+    * Supports //tag and /tag steps with [@attr='v'], [text()='v'], [contains(...)], [child], [not(...)],
+    * [n] and [last()] predicates, | unions come back in document order
+    * */
+    const paths = xpath.split(/\|(?![^\[]*\])/).map(path => path.trim());
+    const matched = new Set(paths.flatMap(path => findByXpathPath(scope, path, xpath)));
+    return [...new Set(scope.flatMap(element => [element, ...descendants(element)]))].filter(element => matched.has(element));
+}
+
+export {
+    FakeElement,
+    FakeDocument,
+    FakeClock,
+    FakeRect,
+    FakeAttributes,
+    FakeEventType,
+    FakeEventHandler
+}
@@ -0,0 +1,510 @@
+import * as http from "http";
+import {AddressInfo, Socket} from "net";
+import {error} from "selenium-webdriver";
+import {FakeDocument, FakeElement} from "./fakeDom";
+import ElementClickInterceptedError = error.ElementClickInterceptedError;
+import ElementNotInteractableError = error.ElementNotInteractableError;
+import InvalidArgumentError = error.InvalidArgumentError;
+import InvalidSelectorError = error.InvalidSelectorError;
+import JavascriptError = error.JavascriptError;
+import NoSuchAlertError = error.NoSuchAlertError;
+import NoSuchCookieError = error.NoSuchCookieError;
+import NoSuchElementError = error.NoSuchElementError;
+import NoSuchFrameError = error.NoSuchFrameError;
+import NoSuchSessionError = error.NoSuchSessionError;
+import NoSuchWindowError = error.NoSuchWindowError;
+import StaleElementReferenceError = error.StaleElementReferenceError;
+import UnknownCommandError = error.UnknownCommandError;
+
+/* atoms selenium sends as scripts for getAttribute and isDisplayed */
+const getAttributeAtom = require('selenium-webdriver/lib/atoms/get-attribute.js');
+const isDisplayedAtom = require('selenium-webdriver/lib/atoms/is-displayed.js');
+
+const ELEMENT_KEY = 'element-6066-11e4-a52e-4f735466cecf';
+
+/* 1x1 transparent png */
+const SCREENSHOT = 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=';
+
+const errorCodes: [Function, string, number][] = [
+    [ElementClickInterceptedError, 'element click intercepted', 400],
+    [ElementNotInteractableError, 'element not interactable', 400],
+    [InvalidArgumentError, 'invalid argument', 400],
+    [InvalidSelectorError, 'invalid selector', 400],
+    [JavascriptError, 'javascript error', 500],
+    [NoSuchAlertError, 'no such alert', 404],
+    [NoSuchCookieError, 'no such cookie', 404],
+    [NoSuchElementError, 'no such element', 404],
+    [NoSuchFrameError, 'no such frame', 404],
+    [NoSuchSessionError, 'invalid session id', 404],
+    [NoSuchWindowError, 'no such window', 404],
+    [StaleElementReferenceError, 'stale element reference', 404],
+    [UnknownCommandError, 'unknown command', 404]
+];
+
+type FakePageBuilder = (document: FakeDocument) => void;
+
+type FakeScriptHandler = (args: any[], session: FakeSession) => any;
+
+type FakeCookie = {
+    name: string
+    value: string
+    [key: string]: any
+};
+
+type CommandHandler = (session: FakeSession, params: {[name: string]: string}, body: any) => any;
+
+class FakeSession {
+    readonly id: string;
+    readonly cookies: FakeCookie[] = [];
+    readonly history: string[] = [];
+    topDocument: FakeDocument;
+    document: FakeDocument;
+    windowOpen = true;
+    focused: FakeElement | null = null;
+    private frames: FakeDocument[] = [];
+    private refs = new Map<string, FakeElement>();
+    private nodeRefs = new Map<FakeElement, string>();
+    private nextRef = 0;
+    constructor(id: string, document: FakeDocument) {
+        this.id = id;
+        this.topDocument = this.document = document;
+    }
+    load(document: FakeDocument){
+        this.topDocument = this.document = document;
+        this.frames = [];
+        this.focused = null;
+    }
+    enterFrame(document: FakeDocument){
+        this.frames.push(this.document);
+        this.document = document;
+    }
+    leaveFrame(){
+        this.document = this.frames.pop() || this.topDocument;
+    }
+    toTop(){
+        this.document = this.topDocument;
+        this.frames = [];
+    }
+    refOf(element: FakeElement): string{
+        let ref = this.nodeRefs.get(element);
+        if (!ref){
+            ref = `fake-element-${++this.nextRef}`;
+            this.refs.set(ref, element);
+            this.nodeRefs.set(element, ref);
+        }
+        return ref;
+    }
+    resolve(ref: string): FakeElement{
+        /*
+        * Scripted stale accesses drop the reference, the element gets a new one on the next search
+        * */
+        const element = this.refs.get(ref);
+        if (element && element.staleAccesses > 0){
+            element.staleAccesses--;
+            this.refs.delete(ref);
+            this.nodeRefs.delete(element);
+        }
+        if (!element || !this.refs.has(ref) || !element.isPresent){
+            throw new StaleElementReferenceError('stale element reference: element is not attached to the page document');
+        }
+        return element;
+    }
+}
+
+class FakeWebDriverServer {
+    /*
+    * W3C WebDriver endpoint backed by in-memory pages, point seleniumHubUrl to its url.
+    * Pages are built from scratch on every navigation by the registered builders
+    * */
+    readonly sessions = new Map<string, FakeSession>();
+    private pages = new Map<string, FakePageBuilder>();
+    private scriptHandlers: {matches: (script: string) => boolean, handle: FakeScriptHandler}[] = [];
+    private routes: [string, RegExp, string[], CommandHandler][] = [];
+    private server: http.Server | null = null;
+    private sockets = new Set<Socket>();
+    private nextSession = 0;
+    private _url = '';
+    constructor() {
+        this.registerRoutes();
+    }
+    get url(): string{
+        return this._url;
+    }
+    page(url: string, build: FakePageBuilder){
+        /*
+        * "*" builds every page which has no own builder
+        * */
+        this.pages.set(url, build);
+        return this;
+    }
+    onScript(matches: string | RegExp | ((script: string) => boolean), handle: FakeScriptHandler){
+        /*
+        * Scripts are not executed, a handler answers every script which contains the string or matches
+        * */
+        const matcher = typeof matches === 'string' ? (script: string) => script.includes(matches) :
+            matches instanceof RegExp ? (script: string) => matches.test(script) : matches;
+        this.scriptHandlers.push({matches: matcher, handle});
+        return this;
+    }
+    async start(port = 0): Promise<string>{
+        const server = this.server = http.createServer((request, response) => this.handle(request, response));
+        server.on('connection', socket => {
+            this.sockets.add(socket);
+            socket.on('close', () => this.sockets.delete(socket));
+        });
+        await new Promise<void>((resolve, reject) => {
+            server.once('error', reject);
+            server.listen(port, '127.0.0.1', () => resolve());
+        });
+        this._url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+        return this._url;
+    }
+    async stop(){
+        const server = this.server;
+        if (!server){
+            return;
+        }
+        this.server = null;
+        this.sockets.forEach(socket => socket.destroy());
+        await new Promise(resolve => server.close(resolve));
+    }
+    private buildDocument(url: string): FakeDocument{
+        const document = new FakeDocument(url);
+        const build = this.pages.get(url) || this.pages.get('*');
+        if (build){
+            build(document);
+        }
+        return document;
+    }
+    private route(method: string, path: string, handler: CommandHandler){
+        const names: string[] = [];
+        const pattern = path.replace(/:(\w+)/g, (match, name) => {
+            names.push(name);
+            return '([^/]+)';
+        });
+        this.routes.push([method, new RegExp(`^${pattern}$`), names, handler]);
+    }
+    private async handle(request: http.IncomingMessage, response: http.ServerResponse){
+        let body = '';
+        for await (const chunk of request){
+            body += chunk;
+        }
+        let status = 200;
+        let value;
+        try {
+            value = this.execute(request.method || 'GET', (request.url || '/').replace(/\/$/, ''), body ? JSON.parse(body) : {});
+        } catch (e) {
+            const [, code, errorStatus] = errorCodes.find(([type]) => e instanceof type) || [null, 'unknown error', 500];
+            status = errorStatus;
+            value = {error: code, message: e.message, stacktrace: ''};
+        }
+        const payload = JSON.stringify({value: value === undefined ? null : value});
+        response.writeHead(status, {'Content-Type': 'application/json; charset=utf-8', 'Content-Length': Buffer.byteLength(payload)});
+        response.end(payload);
+    }
+    private execute(method: string, path: string, body: any){
+        for (const [routeMethod, pattern, names, handler] of this.routes){
+            const match = routeMethod === method && path.match(pattern);
+            if (!match){
+                continue;
+            }
+            const params: {[name: string]: string} = {};
+            names.forEach((name, index) => params[name] = decodeURIComponent(match[index + 1]));
+            const session = params.sessionId ? this.sessions.get(params.sessionId) : undefined;
+            if (params.sessionId && !session){
+                throw new NoSuchSessionError(`invalid session id: ${params.sessionId}`);
+            }
+            session?.document.clock.tick();
+            return handler(session as FakeSession, params, body);
+        }
+        throw new UnknownCommandError(`Fake browser does not support ${method} ${path}`);
+    }
+    private findElements(session: FakeSession, body: any, parentRef?: string): FakeElement[]{
+        const scope = parentRef ? [session.resolve(parentRef)] : [session.document.root];
+        return session.document.find(body.using, body.value, scope).filter(element => element.isPresent);
+    }
+    private findElement(session: FakeSession, body: any, parentRef?: string){
+        const [element] = this.findElements(session, body, parentRef);
+        if (!element){
+            throw new NoSuchElementError(`no such element: Unable to locate element: {"method":"${body.using}","selector":"${body.value}"}`);
+        }
+        return {[ELEMENT_KEY]: session.refOf(element)};
+    }
+    private navigate(session: FakeSession, url: string){
+        session.history.push(url);
+        session.load(this.buildDocument(url));
+    }
+    private click(session: FakeSession, element: FakeElement){
+        if (!element.isDisplayed){
+            throw new ElementNotInteractableError(`element not interactable: ${element} is not displayed`);
+        }
+        if (element.interceptedClicks > 0){
+            element.interceptedClicks--;
+            const {x, y, width, height} = element.rect;
+            throw new ElementClickInterceptedError(`element click intercepted: Element ${element} is not clickable at point ` +
+                `(${x + width / 2}, ${y + height / 2}). Other element would receive the click: <${element.interceptedBy}>`);
+        }
+        session.focused = element;
+        if (!element.enabled){
+            return;
+        }
+        if (element.tag === 'option' && element.parent){
+            if (element.parent.getAttribute('multiple') !== null){
+                element.selected = !element.selected;
+            } else {
+                element.parent.children.forEach(option => option.selected = option === element);
+            }
+        } else if (element.tag === 'input' && element.attributes.type === 'checkbox'){
+            element.selected = !element.selected;
+        } else if (element.tag === 'input' && element.attributes.type === 'radio'){
+            element.selected = true;
+        }
+        element.dispatch('click');
+        if (element.tag === 'a' && element.attributes.href){
+            this.navigate(session, element.attributes.href);
+        }
+    }
+    private typeText(element: FakeElement, text: string){
+        /*
+        * Special keys are private use characters, only backspace is applied
+        * */
+        for (const char of text){
+            if (char === '\uE003'){
+                element.value = element.value.slice(0, -1);
+            } else if (char < '\uE000' || char > '\uF8FF'){
+                element.value += char;
+            }
+        }
+        element.dispatch('input');
+    }
+    private fromWire(session: FakeSession, value: any): any{
+        if (Array.isArray(value)){
+            return value.map(item => this.fromWire(session, item));
+        }
+        if (value && typeof value === 'object'){
+            if (typeof value[ELEMENT_KEY] === 'string'){
+                return session.resolve(value[ELEMENT_KEY]);
+            }
+            return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, this.fromWire(session, item)]));
+        }
+        return value;
+    }
+    private toWire(session: FakeSession, value: any): any{
+        if (value instanceof FakeElement){
+            return {[ELEMENT_KEY]: session.refOf(value)};
+        }
+        if (Array.isArray(value)){
+            return value.map(item => this.toWire(session, item));
+        }
+        if (value && typeof value === 'object'){
+            return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, this.toWire(session, item)]));
+        }
+        return value;
+    }
+    private executeScript(session: FakeSession, script: string, args: any[]){
+        const handler = this.scriptHandlers.find(({matches}) => matches(script));
+        if (handler){
+            return this.toWire(session, handler.handle(args, session));
+        }
+        if (script === `return (${getAttributeAtom}).apply(null, arguments)`){
+            return (args[0] as FakeElement).getAttribute(args[1]);
+        }
+        if (script === `return (${isDisplayedAtom}).apply(null, arguments)`){
+            return (args[0] as FakeElement).isDisplayed;
+        }
+        if (script.includes('function runPageChecks')){
+            /* interceptions are reported by click itself, so only attachment is checked */
+            const element = args[0] as FakeElement;
+            return element.isConnected ? null : {check: 'attached', details: 'element is detached from the document'};
+        }
+        if (script.includes('function getPageReadyState')){
+            return session.document.ready ? {ready: true} : {ready: false, reason: 'fake page is not ready'};
+        }
+        if (script.includes('scrollIntoView')){
+            return null;
+        }
+        if (script.includes('shadowRoot')){
+            const host = args[0] as FakeElement;
+            if (!host.shadowRoot){
+                return null;
+            }
+            const shadowRoot = new FakeElement(session.document, '#shadow-root');
+            shadowRoot.children.push(...host.shadowRoot);
+            const found = session.document.querySelectorAll(args[1], [shadowRoot]);
+            return this.toWire(session, script.includes('querySelectorAll') ? found : found[0] || null);
+        }
+        throw new JavascriptError(`javascript error: fake browser does not execute scripts, ` +
+            `answer it with onScript: ${script.slice(0, 200)}`);
+    }
+    private performActions(session: FakeSession, sources: any[]){
+        /*
+        * Pointer sequences become click, dblclick, contextmenu, hover and drop events
+        * */
+        for (const source of sources){
+            let target: FakeElement | null = null;
+            let pressed: FakeElement | null = null;
+            let lastClicked: FakeElement | null = null;
+            for (const action of source.actions || []){
+                if (source.type === 'key' && action.type === 'keyDown' && session.focused){
+                    this.typeText(session.focused, action.value);
+                }
+                if (source.type !== 'pointer'){
+                    continue;
+                }
+                if (action.type === 'pointerMove' && action.origin && typeof action.origin === 'object'){
+                    target = this.fromWire(session, action.origin) as FakeElement;
+                    target.dispatch('hover');
+                } else if (action.type === 'pointerDown'){
+                    pressed = target;
+                } else if (action.type === 'pointerUp' && target){
+                    if (action.button === 2){
+                        target.dispatch('contextmenu');
+                    } else if (pressed === target){
+                        this.click(session, target);
+                        if (lastClicked === target){
+                            target.dispatch('dblclick');
+                        }
+                        lastClicked = target;
+                    } else if (pressed){
+                        target.dispatch('drop', pressed);
+                    }
+                    pressed = null;
+                }
+            }
+        }
+    }
+    private registerRoutes(){
+        const windowRect = {x: 0, y: 0, width: 1280, height: 800};
+        this.route('GET', '/status', () => ({ready: true, message: 'fake webdriver server'}));
+        this.route('POST', '/session', (session, params, body) => {
+            const id = `fake-session-${++this.nextSession}`;
+            this.sessions.set(id, new FakeSession(id, this.buildDocument('about:blank')));
+            const browserName = body.capabilities?.alwaysMatch?.browserName || body.desiredCapabilities?.browserName || 'fake';
+            return {sessionId: id, capabilities: {browserName, browserVersion: '0', platformName: 'fake'}};
+        });
+        this.route('DELETE', '/session/:sessionId', (session) => {
+            this.sessions.delete(session.id);
+        });
+        this.route('GET', '/session/:sessionId/timeouts', () => ({implicit: 0, pageLoad: 300000, script: 30000}));
+        this.route('POST', '/session/:sessionId/timeouts', () => null);
+        this.route('POST', '/session/:sessionId/url', (session, params, body) => this.navigate(session, body.url));
+        this.route('GET', '/session/:sessionId/url', session => session.document.url);
+        this.route('GET', '/session/:sessionId/title', session => session.topDocument.title);
+        this.route('GET', '/session/:sessionId/source', session => session.document.toHtml());
+        this.route('POST', '/session/:sessionId/refresh', session => session.load(this.buildDocument(session.topDocument.url)));
+        this.route('POST', '/session/:sessionId/back', session => {
+            session.history.pop();
+            session.load(this.buildDocument(session.history[session.history.length - 1] || 'about:blank'));
+        });
+        this.route('POST', '/session/:sessionId/forward', () => null);
+        this.route('GET', '/session/:sessionId/window', session => {
+            if (!session.windowOpen) throw new NoSuchWindowError('no such window: window was already closed');
+            return 'fake-window';
+        });
+        this.route('GET', '/session/:sessionId/window/handles', session => session.windowOpen ? ['fake-window'] : []);
+        this.route('POST', '/session/:sessionId/window', (session, params, body) => {
+            if (body.handle !== 'fake-window' || !session.windowOpen) throw new NoSuchWindowError(`no such window: ${body.handle}`);
+            session.toTop();
+        });
+        this.route('DELETE', '/session/:sessionId/window', session => {
+            session.windowOpen = false;
+            return [];
+        });
+        this.route('GET', '/session/:sessionId/window/rect', () => windowRect);
+        this.route('POST', '/session/:sessionId/window/rect', () => windowRect);
+        this.route('POST', '/session/:sessionId/window/maximize', () => windowRect);
+        this.route('POST', '/session/:sessionId/window/minimize', () => windowRect);
+        this.route('POST', '/session/:sessionId/window/fullscreen', () => windowRect);
+        this.route('POST', '/session/:sessionId/frame', (session, params, body) => {
+            if (body.id === null){
+                return session.toTop();
+            }
+            const frame = typeof body.id === 'number' ?
+                session.document.find('css selector', 'iframe, frame').filter(element => element.frameDocument)[body.id] :
+                this.fromWire(session, body.id);
+            if (!frame || !frame.frameDocument){
+                throw new NoSuchFrameError(`no such frame: ${JSON.stringify(body.id)}`);
+            }
+            session.enterFrame(frame.frameDocument);
+        });
+        this.route('POST', '/session/:sessionId/frame/parent', session => session.leaveFrame());
+        this.route('POST', '/session/:sessionId/element', (session, params, body) => this.findElement(session, body));
+        this.route('POST', '/session/:sessionId/elements', (session, params, body) =>
+            this.toWire(session, this.findElements(session, body)));
+        this.route('GET', '/session/:sessionId/element/active', session =>
+            this.toWire(session, session.focused || session.document.body));
+        this.route('POST', '/session/:sessionId/element/:id/element', (session, params, body) =>
+            this.findElement(session, body, params.id));
+        this.route('POST', '/session/:sessionId/element/:id/elements', (session, params, body) =>
+            this.toWire(session, this.findElements(session, body, params.id)));
+        this.route('GET', '/session/:sessionId/element/:id/name', (session, params) => session.resolve(params.id).tag);
+        this.route('GET', '/session/:sessionId/element/:id/text', (session, params) => session.resolve(params.id).textContent.trim());
+        this.route('GET', '/session/:sessionId/element/:id/attribute/:name', (session, params) =>
+            session.resolve(params.id).getAttribute(params.name));
+        this.route('GET', '/session/:sessionId/element/:id/property/:name', (session, params) =>
+            session.resolve(params.id).getAttribute(params.name));
+        this.route('GET', '/session/:sessionId/element/:id/css/:property', (session, params) =>
+            session.resolve(params.id).styles[params.property] || '');
+        this.route('GET', '/session/:sessionId/element/:id/rect', (session, params) => session.resolve(params.id).rect);
+        this.route('GET', '/session/:sessionId/element/:id/enabled', (session, params) => session.resolve(params.id).enabled);
+        this.route('GET', '/session/:sessionId/element/:id/selected', (session, params) => session.resolve(params.id).selected);
+        this.route('GET', '/session/:sessionId/element/:id/displayed', (session, params) => session.resolve(params.id).isDisplayed);
+        this.route('POST', '/session/:sessionId/element/:id/click', (session, params) => this.click(session, session.resolve(params.id)));
+        this.route('POST', '/session/:sessionId/element/:id/clear', (session, params) => {
+            const element = session.resolve(params.id);
+            element.value = '';
+            element.dispatch('input');
+        });
+        this.route('POST', '/session/:sessionId/element/:id/value', (session, params, body) => {
+            const element = session.resolve(params.id);
+            if (!element.isDisplayed){
+                throw new ElementNotInteractableError(`element not interactable: ${element} is not displayed`);
+            }
+            session.focused = element;
+            if (element.enabled){
+                this.typeText(element, body.text ?? (body.value || []).join(''));
+            }
+        });
+        this.route('GET', '/session/:sessionId/element/:id/screenshot', (session, params) => {
+            session.resolve(params.id);
+            return SCREENSHOT;
+        });
+        this.route('GET', '/session/:sessionId/screenshot', () => SCREENSHOT);
+        this.route('POST', '/session/:sessionId/execute/sync', (session, params, body) =>
+            this.executeScript(session, body.script, this.fromWire(session, body.args || [])));
+        this.route('POST', '/session/:sessionId/execute/async', (session, params, body) =>
+            this.executeScript(session, body.script, this.fromWire(session, body.args || [])));
+        this.route('POST', '/session/:sessionId/actions', (session, params, body) => this.performActions(session, body.actions || []));
+        this.route('DELETE', '/session/:sessionId/actions', () => null);
+        this.route('GET', '/session/:sessionId/cookie', session => session.cookies);
+        this.route('GET', '/session/:sessionId/cookie/:name', (session, params) => {
+            const cookie = session.cookies.find(({name}) => name === params.name);
+            if (!cookie) throw new NoSuchCookieError(`no such cookie: ${params.name}`);
+            return cookie;
+        });
+        this.route('POST', '/session/:sessionId/cookie', (session, params, body) => {
+            const index = session.cookies.findIndex(({name}) => name === body.cookie.name);
+            session.cookies.splice(index < 0 ? session.cookies.length : index, 1, body.cookie);
+        });
+        this.route('DELETE', '/session/:sessionId/cookie', session => {
+            session.cookies.length = 0;
+        });
+        this.route('DELETE', '/session/:sessionId/cookie/:name', (session, params) => {
+            const index = session.cookies.findIndex(({name}) => name === params.name);
+            if (index >= 0) session.cookies.splice(index, 1);
+        });
+        this.route('GET', '/session/:sessionId/alert/text', () => {
+            throw new NoSuchAlertError('no such alert');
+        });
+        this.route('POST', '/session/:sessionId/se/log', () => []);
+        this.route('GET', '/session/:sessionId/se/log/types', () => ['browser']);
+    }
+}
+
+export {
+    FakeWebDriverServer,
+    FakeSession,
+    FakePageBuilder,
+    FakeScriptHandler,
+    FakeCookie
+}
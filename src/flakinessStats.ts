@@ -0,0 +1,111 @@
+import {promises as fs} from "fs";
+import * as path from "path";
+import {DriverEvents} from "./events";
+
+type LocatorStats = {
+    target: string
+    calls: number
+    retriedCalls: number
+    meanAttempts: number
+    maxAttempts: number
+    retryTime: number
+    errors: string[]
+}
+
+type LocatorRecord = {
+    calls: number
+    retriedCalls: number
+    totalAttempts: number
+    maxAttempts: number
+    retryTime: number
+    errors: Set<string>
+    depth: number
+}
+
+class FlakinessStats {
+    /*
+    * Aggregates retry statistics per locator chain across every attached driver,
+    * nested actions on the same target (expect around retryGetText) count as one call
+    * */
+    private records = new Map<string, LocatorRecord>();
+    private record(target: string): LocatorRecord{
+        let record = this.records.get(target);
+        if (!record){
+            record = {calls: 0, retriedCalls: 0, totalAttempts: 0, maxAttempts: 0, retryTime: 0, errors: new Set(), depth: 0};
+            this.records.set(target, record);
+        }
+        return record;
+    }
+    attach(events: DriverEvents, reportDir?: string){
+        events.on('actionStart', ({target}) => {
+            this.record(target).depth++;
+        });
+        events.on('attempt', ({target, error}) => {
+            this.record(target).errors.add(error?.name || String(error));
+        });
+        events.on('actionEnd', ({target, attempts, elapsed}) => {
+            const record = this.record(target);
+            record.depth = Math.max(record.depth - 1, 0);
+            if (record.depth > 0){
+                return;
+            }
+            record.calls++;
+            record.totalAttempts += attempts;
+            record.maxAttempts = Math.max(record.maxAttempts, attempts);
+            if (attempts > 1){
+                record.retriedCalls++;
+                record.retryTime += elapsed;
+            }
+        });
+        if (reportDir){
+            events.on('quit', () => this.writeReport(reportDir).catch(e =>
+                console.error(`Flakiness report is not written: ${e.message}`)));
+        }
+        return this;
+    }
+    get stats(): LocatorStats[]{
+        /*
+        * The most expensive locators go first
+        * */
+        return [...this.records.entries()]
+            .filter(([, record]) => record.calls > 0)
+            .map(([target, record]) => ({
+                target,
+                calls: record.calls,
+                retriedCalls: record.retriedCalls,
+                meanAttempts: Math.round(record.totalAttempts / record.calls * 100) / 100,
+                maxAttempts: record.maxAttempts,
+                retryTime: record.retryTime,
+                errors: [...record.errors]
+            }))
+            .sort((a, b) => b.retryTime - a.retryTime || b.retriedCalls - a.retriedCalls);
+    }
+    formatTable(): string{
+        const header = ['retry ms', 'calls', 'retried', 'mean', 'max', 'target', 'errors'];
+        const rows = this.stats.map(stat => [String(stat.retryTime), String(stat.calls), String(stat.retriedCalls),
+            String(stat.meanAttempts), String(stat.maxAttempts), stat.target, stat.errors.join(', ')]);
+        const widths = header.map((title, index) => Math.max(title.length, ...rows.map(row => row[index].length)));
+        return [header, ...rows]
+            .map(row => row.map((cell, index) => cell.padEnd(widths[index])).join('  ').trimRight())
+            .join('\n');
+    }
+    async writeReport(directory: string){
+        await fs.mkdir(directory, {recursive: true});
+        const jsonPath = path.join(directory, 'flakiness.json');
+        const tablePath = path.join(directory, 'flakiness.txt');
+        const table = this.formatTable();
+        await fs.writeFile(jsonPath, JSON.stringify(this.stats, null, 2));
+        await fs.writeFile(tablePath, table);
+        console.log(table);
+        return {jsonPath, tablePath};
+    }
+}
+
+/* statistics of the whole run shared by all drivers */
+const runFlakinessStats = new FlakinessStats();
+
+export {
+    FlakinessStats,
+    LocatorStats,
+    runFlakinessStats
+}
@@ -0,0 +1,93 @@
+import {Driver} from "./driver";
+import {RunnerOptions, RunnerSession} from "./testRunner";
+
+/*
+* Jest environment for jest-circus, the base environment is passed in to not depend on jest:
+*   // webdriver-environment.js
+*   const NodeEnvironment = require('jest-environment-node');
+*   module.exports = require('webdriver-retry-wrapper/src/jest').createJestEnvironment(NodeEnvironment);
+* and "testEnvironment": "./webdriver-environment.js" in jest config.
+* Tests run in their own module registry, so the environment drives the default driver
+* which the tests module registry puts on the test global
+* */
+
+type JestEnvironment = {
+    global: typeof globalThis
+    setup(): Promise<void>
+    teardown(): Promise<void>
+    handleTestEvent?(event: any, state: any): void | Promise<void>
+}
+
+type JestEnvironmentClass = new (...args: any[]) => JestEnvironment;
+
+type CircusBlock = {
+    name: string
+    parent?: CircusBlock
+}
+
+type CircusTest = CircusBlock & {
+    errors: any[]
+    timeout?: number
+}
+
+type CircusEvent = {
+    name: string
+    test?: CircusTest
+}
+
+type CircusState = {
+    testTimeout: number
+}
+
+function getFullName(test: CircusTest){
+    const names = [];
+    for (let block: CircusBlock | undefined = test; block; block = block.parent){
+        if (block.name !== 'ROOT_DESCRIBE_BLOCK'){
+            names.unshift(block.name);
+        }
+    }
+    return names.join(' ');
+}
+
+function createJestEnvironment<T extends JestEnvironmentClass>(BaseEnvironment: T, options?: RunnerOptions){
+    return class WebDriverEnvironment extends BaseEnvironment {
+        runnerSession: RunnerSession | null = null;
+        testPath: string | undefined;
+        constructor(...args: any[]) {
+            super(...args);
+            this.testPath = args[1]?.testPath;
+        }
+        getRunnerSession(): RunnerSession | null{
+            const webDriver: Driver | undefined = this.global.webDriverRetryWrapperDriver;
+            if (!this.runnerSession && webDriver){
+                this.runnerSession = new RunnerSession(webDriver, options);
+            }
+            return this.runnerSession;
+        }
+        async handleTestEvent(event: CircusEvent, state: CircusState){
+            if (super.handleTestEvent){
+                await super.handleTestEvent(event, state);
+            }
+            const session = this.getRunnerSession();
+            if (!session || !event.test){
+                return;
+            }
+            const test = {name: getFullName(event.test), file: this.testPath, timeout: event.test.timeout || state.testTimeout};
+            if (event.name === 'test_start'){
+                await session.testStarted(test);
+            } else if (event.name === 'test_done'){
+                const [error] = event.test.errors;
+                await session.testFinished(test, Array.isArray(error) ? error[0] : error);
+            }
+        }
+        async teardown(){
+            await this.runnerSession?.finished();
+            await super.teardown();
+        }
+    };
+}
+
+export {
+    createJestEnvironment,
+    JestEnvironmentClass
+}
@@ -0,0 +1,52 @@
+import {driver, Driver} from "./driver";
+import {RunnerOptions, RunnerSession, RunnerTest} from "./testRunner";
+
+/*
+* Mocha root hooks plugin:
+*   mocha --require ts-node/register --require webdriver-retry-wrapper/src/mocha.ts
+* or createMochaHooks(webDriver, options) exported as mochaHooks from an own required file
+* */
+
+type MochaTest = {
+    fullTitle(): string
+    timeout(): number
+    file?: string
+    state?: string
+    err?: any
+}
+
+type MochaContext = {
+    currentTest?: MochaTest
+}
+
+function toRunnerTest(test: MochaTest): RunnerTest{
+    return {name: test.fullTitle(), file: test.file, timeout: test.timeout()};
+}
+
+function createMochaHooks(webDriver: Driver = driver, options?: RunnerOptions){
+    const session = new RunnerSession(webDriver, options);
+    return {
+        async beforeEach(this: MochaContext){
+            if (this.currentTest){
+                await session.testStarted(toRunnerTest(this.currentTest));
+            }
+        },
+        async afterEach(this: MochaContext){
+            const test = this.currentTest;
+            if (test){
+                await session.testFinished(toRunnerTest(test),
+                    test.state === 'failed' ? test.err || new Error(`${test.fullTitle()} failed`) : undefined);
+            }
+        },
+        async afterAll(){
+            await session.finished();
+        }
+    };
+}
+
+const mochaHooks = createMochaHooks();
+
+export {
+    mochaHooks,
+    createMochaHooks
+}
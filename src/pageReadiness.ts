@@ -0,0 +1,111 @@
+type PageReadyOptions = {
+    network?: boolean
+    networkIdleTime?: number
+    angular?: boolean
+    predicate?: string | Function
+}
+
+type PageReadyState = {
+    ready: boolean
+    reason?: string
+}
+
+const defaultPageReadyOptions = {
+    network: true,
+    networkIdleTime: 100,
+    angular: false
+};
+
+class PageNotReadyError extends Error {
+    readonly reason: string;
+    constructor(reason: string) {
+        super(`Page is not ready: ${reason}`);
+        this.name = 'PageNotReadyError';
+        this.reason = reason;
+    }
+}
+
+function getPageReadyState(){
+    /*
+    * Runs in the browser. On the first call per document patches XMLHttpRequest and fetch
+    * to count in-flight requests, requests started before that are not seen
+    * */
+    const [network, networkIdleTime, angular, predicateSource] = arguments;
+    const page: any = window;
+    if (document.readyState !== 'complete'){
+        return {ready: false, reason: `document.readyState is ${document.readyState}`};
+    }
+    if (network){
+        if (!page.__wdrwNetwork){
+            const tracker = page.__wdrwNetwork = {pending: 0, lastActivity: 0};
+            const started = () => {
+                tracker.pending++;
+                tracker.lastActivity = +new Date();
+            };
+            const finished = () => {
+                tracker.pending = Math.max(tracker.pending - 1, 0);
+                tracker.lastActivity = +new Date();
+            };
+            const send = XMLHttpRequest.prototype.send;
+            XMLHttpRequest.prototype.send = function (this: XMLHttpRequest, ...args: any[]){
+                started();
+                this.addEventListener('loadend', finished, {once: true});
+                return send.apply(this, args as any);
+            };
+            if (page.fetch){
+                const fetch = page.fetch;
+                page.fetch = function (this: any, ...args: any[]){
+                    started();
+                    const response = fetch.apply(this, args);
+                    response.then(finished, finished);
+                    return response;
+                };
+            }
+        }
+        const tracker = page.__wdrwNetwork;
+        if (tracker.pending > 0){
+            return {ready: false, reason: `${tracker.pending} request(s) are in flight`};
+        }
+        const idle = +new Date() - tracker.lastActivity;
+        if (idle < networkIdleTime){
+            return {ready: false, reason: `network is idle only for ${idle}ms`};
+        }
+    }
+    if (angular){
+        if (page.getAllAngularTestabilities){
+            const unstable = page.getAllAngularTestabilities().filter((testability: any) => !testability.isStable());
+            if (unstable.length){
+                return {ready: false, reason: `${unstable.length} Angular zone(s) are not stable`};
+            }
+        } else if (page.angular){
+            const injector = page.angular.element(document.body).injector();
+            const pending = injector ? injector.get('$http').pendingRequests.length : 0;
+            if (pending){
+                return {ready: false, reason: `${pending} AngularJS $http request(s) are pending`};
+            }
+        }
+    }
+    if (predicateSource && !new Function(predicateSource)()){
+        return {ready: false, reason: 'readiness predicate returned false'};
+    }
+    return {ready: true};
+}
+
+function toPredicateSource(predicate?: string | Function): string | null{
+    /*
+    * Functions are sent as their source wrapped into a call, strings are used as a script body with return
+    * */
+    if (!predicate){
+        return null;
+    }
+    return typeof predicate === 'function' ? `return (${predicate})();` : predicate;
+}
+
+export {
+    PageReadyOptions,
+    PageReadyState,
+    PageNotReadyError,
+    defaultPageReadyOptions,
+    getPageReadyState,
+    toPredicateSource
+}
@@ -0,0 +1,156 @@
+import * as zlib from "zlib";
+
+/*
+* Minimal PNG codec for screenshots: 8 bit, non interlaced images of any color type are decoded,
+* images are always encoded as RGBA
+* */
+
+type PngImage = {
+    width: number
+    height: number
+    /* RGBA, 4 bytes per pixel row by row */
+    data: Buffer
+}
+
+const signature = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+const channelsByColorType: {[colorType: number]: number} = {0: 1, 2: 3, 3: 1, 4: 2, 6: 4};
+
+const crcTable = Array.from({length: 256}, (_, n) => {
+    let c = n;
+    for (let k = 0; k < 8; k++){
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    return c >>> 0;
+});
+
+function crc32(buffer: Buffer){
+    let crc = 0xffffffff;
+    for (const byte of buffer){
+        crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xffffffff) >>> 0;
+}
+
+function paeth(left: number, up: number, upLeft: number){
+    const p = left + up - upLeft;
+    const pLeft = Math.abs(p - left);
+    const pUp = Math.abs(p - up);
+    const pUpLeft = Math.abs(p - upLeft);
+    if (pLeft <= pUp && pLeft <= pUpLeft) return left;
+    return pUp <= pUpLeft ? up : upLeft;
+}
+
+function unfilter(raw: Buffer, width: number, height: number, bytesPerPixel: number): Buffer{
+    const stride = width * bytesPerPixel;
+    const pixels = Buffer.alloc(stride * height);
+    for (let y = 0; y < height; y++){
+        const filter = raw[y * (stride + 1)];
+        const source = y * (stride + 1) + 1;
+        const row = y * stride;
+        for (let x = 0; x < stride; x++){
+            const left = x >= bytesPerPixel ? pixels[row + x - bytesPerPixel] : 0;
+            const up = y > 0 ? pixels[row - stride + x] : 0;
+            const upLeft = y > 0 && x >= bytesPerPixel ? pixels[row - stride + x - bytesPerPixel] : 0;
+            let predictor;
+            switch (filter) {
+                case 0: predictor = 0; break;
+                case 1: predictor = left; break;
+                case 2: predictor = up; break;
+                case 3: predictor = (left + up) >> 1; break;
+                case 4: predictor = paeth(left, up, upLeft); break;
+                default: throw new Error(`Invalid PNG filter type ${filter} in row ${y}`);
+            }
+            pixels[row + x] = (raw[source + x] + predictor) & 0xff;
+        }
+    }
+    return pixels;
+}
+
+function decodePng(png: Buffer | string): PngImage{
+    const buffer = typeof png === 'string' ? Buffer.from(png, 'base64') : png;
+    if (!buffer.slice(0, 8).equals(signature)){
+        throw new Error('Not a PNG image');
+    }
+    let width = 0, height = 0, colorType = 0;
+    let palette: Buffer | null = null;
+    let transparency: Buffer | null = null;
+    const idat: Buffer[] = [];
+    for (let offset = 8; offset < buffer.length;){
+        const length = buffer.readUInt32BE(offset);
+        const type = buffer.toString('ascii', offset + 4, offset + 8);
+        const chunk = buffer.slice(offset + 8, offset + 8 + length);
+        offset += length + 12;
+        if (type === 'IHDR'){
+            width = chunk.readUInt32BE(0);
+            height = chunk.readUInt32BE(4);
+            colorType = chunk[9];
+            if (chunk[8] !== 8 || chunk[12] !== 0 || !(colorType in channelsByColorType)){
+                throw new Error(`Unsupported PNG: bit depth ${chunk[8]}, color type ${colorType}, interlace ${chunk[12]}`);
+            }
+        } else if (type === 'PLTE'){
+            palette = chunk;
+        } else if (type === 'tRNS'){
+            transparency = chunk;
+        } else if (type === 'IDAT'){
+            idat.push(chunk);
+        } else if (type === 'IEND'){
+            break;
+        }
+    }
+    const channels = channelsByColorType[colorType];
+    const pixels = unfilter(zlib.inflateSync(Buffer.concat(idat)), width, height, channels);
+    const data = Buffer.alloc(width * height * 4);
+    for (let i = 0; i < width * height; i++){
+        const p = i * channels;
+        let rgba;
+        switch (colorType) {
+            case 0: rgba = [pixels[p], pixels[p], pixels[p], 255]; break;
+            case 2: rgba = [pixels[p], pixels[p + 1], pixels[p + 2], 255]; break;
+            case 3: {
+                const index = pixels[p];
+                if (!palette) throw new Error('Palette PNG has no PLTE chunk');
+                rgba = [palette[index * 3], palette[index * 3 + 1], palette[index * 3 + 2],
+                    transparency && index < transparency.length ? transparency[index] : 255];
+                break;
+            }
+            case 4: rgba = [pixels[p], pixels[p], pixels[p], pixels[p + 1]]; break;
+            default: rgba = [pixels[p], pixels[p + 1], pixels[p + 2], pixels[p + 3]];
+        }
+        data.set(rgba, i * 4);
+    }
+    return {width, height, data};
+}
+
+function chunk(type: string, data: Buffer){
+    const length = Buffer.alloc(4);
+    length.writeUInt32BE(data.length, 0);
+    const typeAndData = Buffer.concat([Buffer.from(type, 'ascii'), data]);
+    const crc = Buffer.alloc(4);
+    crc.writeUInt32BE(crc32(typeAndData), 0);
+    return Buffer.concat([length, typeAndData, crc]);
+}
+
+function encodePng({width, height, data}: PngImage): Buffer{
+    const header = Buffer.alloc(13);
+    header.writeUInt32BE(width, 0);
+    header.writeUInt32BE(height, 4);
+    header.set([8, 6, 0, 0, 0], 8);
+    const stride = width * 4;
+    const raw = Buffer.alloc((stride + 1) * height);
+    for (let y = 0; y < height; y++){
+        data.copy(raw, y * (stride + 1) + 1, y * stride, (y + 1) * stride);
+    }
+    return Buffer.concat([
+        signature,
+        chunk('IHDR', header),
+        chunk('IDAT', zlib.deflateSync(raw)),
+        chunk('IEND', Buffer.alloc(0))
+    ]);
+}
+
+export {
+    PngImage,
+    decodePng,
+    encodePng
+}
@@ -0,0 +1,308 @@
+import {error} from "selenium-webdriver";
+import InvalidSelectorError = error.InvalidSelectorError;
+import NoSuchSessionError = error.NoSuchSessionError;
+import {AbortSignalLike, currentDeadline, Deadline, DeadlineExceededError, DeadlineStopReason, runWithDeadline} from "./deadline";
+import {StorageStateError} from "./storageState";
+
+enum TimeConstants  {
+    /* milliseconds*/
+    Zero = 0,
+    TenthOfASecond = 100,
+    QuaterASecond = 250,
+    HalfASecond = 500,
+    TwoSeconds = 2000,
+    FiveSeconds = 5000,
+    TenSeconds = 10000,
+    HalfAMinute= 30000,
+    QuarterAMinute = 15000,
+    Minute = 60000
+}
+
+type BackoffStrategy = 'constant' | 'linear' | 'exponential';
+
+type RetryPolicyOptions = {
+    timeout?: number
+    pollInterval?: number
+    maxPollInterval?: number
+    backoff?: BackoffStrategy
+    backoffFactor?: number
+    maxAttempts?: number
+    isRetriable?: (e: any) => boolean
+    signal?: AbortSignalLike
+}
+
+/*
+* Anything accepted where a per-call retry override is allowed,
+* a bare number is treated as a timeout in milliseconds
+* */
+type RetryOptions = RetryPolicy | RetryPolicyOptions | number;
+
+type RetryObserver = {
+    attemptFailed?: (retry: RetryAttempts, error: any) => void
+    finished?: (retry: RetryAttempts, passed: boolean, error?: any) => void
+}
+
+/*
+* Decides what happens when the browser session dies during a retry:
+* recover resolves once a new session is ready and throws when the session can not be recovered
+* */
+type SessionGuard = {
+    isSessionLost: (e: any) => boolean
+    recover: (e: any) => Promise<void>
+}
+
+type RetryRunOptions = {
+    /* stack of the caller shown on swallowed errors instead of the retry internals */
+    stack?: string
+    /* adds context to every swallowed error, e.g. the locators chain */
+    describe?: (e: any) => void
+    /* builds the error thrown once attempts are exhausted from the last swallowed one */
+    failure: (lastError: any) => Promise<any>
+}
+
+class RetryPending {
+    /*
+    * Returned by an attempt which ran without errors but did not reach the awaited state yet,
+    * reason is reported like a swallowed error and is never checked with isRetriable
+    * */
+    constructor(readonly reason?: any) {}
+}
+
+function timeoutCondition(timeoutMs: number = TimeConstants.QuarterAMinute){
+    const dt = +new Date();
+    return ()=> (+new Date()) - dt <= timeoutMs;
+}
+
+function sleep(ms: number){
+    return new Promise<void>(resolve => setTimeout(resolve, ms));
+}
+
+function isRetriableError(e: any): boolean{
+    /*
+    * Errors which will never recover by retrying the same call
+    * */
+    return !(e instanceof InvalidSelectorError) && !(e instanceof NoSuchSessionError) && !(e instanceof DeadlineExceededError) &&
+        !(e instanceof StorageStateError);
+}
+
+class RetryAttempts {
+    readonly startTime = +new Date();
+    private _attempt = 0;
+    private _finished = false;
+    private _stopReason: DeadlineStopReason | null = null;
+    private lostSessionError: any = null;
+    readonly deadline: Deadline | undefined;
+    constructor(readonly policy: RetryPolicy, private readonly observer: RetryObserver = {},
+                private readonly sessionGuard?: SessionGuard) {
+        const parent = currentDeadline();
+        this.deadline = parent || policy.signal ? new Deadline(Infinity, policy.signal, parent) : undefined;
+    }
+    get attempt(){
+        return this._attempt;
+    }
+    get elapsed(){
+        return (+new Date()) - this.startTime;
+    }
+    get stopReason(){
+        /*
+        * Set when the shared deadline or abort signal and not the own timeout ended the retry
+        * */
+        return this._stopReason;
+    }
+    private interrupted(): boolean{
+        this._stopReason = this.deadline?.stopReason || null;
+        return this._stopReason !== null;
+    }
+    async next(): Promise<boolean>{
+        /*
+        * The first attempt always runs, next ones wait for the policy delay
+        * and stop once timeout or max attempts are exhausted
+        * */
+        if (this.lostSessionError){
+            const lostSessionError = this.lostSessionError;
+            this.lostSessionError = null;
+            try {
+                await this.sessionGuard?.recover(lostSessionError);
+            } catch (e) {
+                throw this.fail(e);
+            }
+        }
+        if (this.interrupted() || this._attempt >= this.policy.maxAttempts){
+            return false;
+        }
+        if (this._attempt > 0){
+            const remaining = this.policy.timeout - this.elapsed;
+            if (remaining < 0){
+                return false;
+            }
+            const delay = Math.min(this.policy.delay(this._attempt), remaining);
+            await (this.deadline ? this.deadline.sleep(delay) : sleep(delay));
+            if (this.interrupted()){
+                return false;
+            }
+        }
+        this._attempt++;
+        return true;
+    }
+    async run<T>(attempt: () => Promise<T | RetryPending>, {stack, describe, failure}: RetryRunOptions): Promise<T>{
+        /*
+        * Repeats attempt until it returns a result, an error which is not retriable ends the retry at once
+        * */
+        let lastError;
+        while (await this.next()){
+            let result;
+            try {
+                result = await attempt();
+            } catch (e) {
+                if (!this.isRetriable(e)) throw this.fail(e);
+                result = new RetryPending(e);
+            }
+            if (!(result instanceof RetryPending)){
+                return this.done(result);
+            }
+            if (result.reason !== undefined){
+                lastError = result.reason;
+                describe?.(lastError);
+                if (stack) lastError.stack = stack;
+                this.failed(lastError);
+            }
+        }
+        throw this.fail(await failure(lastError));
+    }
+    within<T>(callback: () => Promise<T>): Promise<T>{
+        /*
+        * Retries started by callback share what is left of this retry timeout instead of starting their own
+        * */
+        return runWithDeadline(new Deadline(this.policy.timeout - this.elapsed, undefined, this.deadline), callback);
+    }
+    isSessionLost(e: any): boolean{
+        /*
+        * Lost session is retried after recovery, next() throws when it can not be recovered
+        * */
+        if (this.sessionGuard?.isSessionLost(e)){
+            this.lostSessionError = e;
+            return true;
+        }
+        return false;
+    }
+    isRetriable(e: any): boolean{
+        return this.isSessionLost(e) || this.policy.isRetriable(e);
+    }
+    failed(e: any){
+        /*
+        * Reports an error swallowed by the current attempt
+        * */
+        this.observer.attemptFailed?.(this, e);
+    }
+    done(): void;
+    done<T>(value: T): T;
+    done<T>(value?: T){
+        this.finish(true);
+        return value;
+    }
+    fail(e: any){
+        this.finish(false, e);
+        return e;
+    }
+    private finish(passed: boolean, error?: any){
+        if (this._finished){
+            return;
+        }
+        this._finished = true;
+        this.observer.finished?.(this, passed, error);
+    }
+}
+
+class RetryPolicy {
+    private static _default = new RetryPolicy();
+    readonly timeout: number;
+    readonly pollInterval: number;
+    readonly maxPollInterval: number;
+    readonly backoff: BackoffStrategy;
+    readonly backoffFactor: number;
+    readonly maxAttempts: number;
+    readonly isRetriable: (e: any) => boolean;
+    readonly signal: AbortSignalLike | undefined;
+    constructor({timeout = TimeConstants.QuarterAMinute,
+                    pollInterval = TimeConstants.TenthOfASecond,
+                    maxPollInterval = TimeConstants.TwoSeconds,
+                    backoff = 'constant',
+                    backoffFactor = 2,
+                    maxAttempts = Infinity,
+                    isRetriable = isRetriableError,
+                    signal}: RetryPolicyOptions = {}) {
+        this.timeout = timeout;
+        this.pollInterval = pollInterval;
+        this.maxPollInterval = maxPollInterval;
+        this.backoff = backoff;
+        this.backoffFactor = backoffFactor;
+        this.maxAttempts = maxAttempts;
+        this.isRetriable = isRetriable;
+        this.signal = signal;
+    }
+    static get default(): RetryPolicy{
+        return RetryPolicy._default;
+    }
+    static setDefault(policy: RetryPolicy | RetryPolicyOptions){
+        RetryPolicy._default = policy instanceof RetryPolicy ? policy : new RetryPolicy(policy);
+    }
+    get options(): RetryPolicyOptions{
+        return {
+            timeout: this.timeout,
+            pollInterval: this.pollInterval,
+            maxPollInterval: this.maxPollInterval,
+            backoff: this.backoff,
+            backoffFactor: this.backoffFactor,
+            maxAttempts: this.maxAttempts,
+            isRetriable: this.isRetriable,
+            signal: this.signal
+        };
+    }
+    with(overrides?: RetryOptions | null): RetryPolicy{
+        if (overrides === undefined || overrides === null){
+            return this;
+        }
+        if (typeof overrides === 'number'){
+            return new RetryPolicy({...this.options, timeout: overrides});
+        }
+        const options = overrides instanceof RetryPolicy ? overrides.options : overrides;
+        const defined = Object.entries(options).filter(([, value]) => value !== undefined);
+        return new RetryPolicy({...this.options, ...Object.fromEntries(defined)});
+    }
+    delay(attempt: number): number{
+        /*
+        * Pause after the given (1-based) failed attempt
+        * */
+        let delay;
+        switch (this.backoff) {
+            case "linear":
+                delay = this.pollInterval * attempt;
+                break;
+            case "exponential":
+                delay = this.pollInterval * Math.pow(this.backoffFactor, attempt - 1);
+                break;
+            default:
+                delay = this.pollInterval;
+        }
+        return Math.min(delay, Math.max(this.maxPollInterval, this.pollInterval));
+    }
+    start(observer?: RetryObserver, sessionGuard?: SessionGuard): RetryAttempts{
+        return new RetryAttempts(this, observer, sessionGuard);
+    }
+}
+
+export {
+    RetryPolicy,
+    RetryAttempts,
+    RetryPending,
+    RetryRunOptions,
+    RetryPolicyOptions,
+    RetryOptions,
+    RetryObserver,
+    SessionGuard,
+    BackoffStrategy,
+    isRetriableError,
+    timeoutCondition,
+    sleep,
+    TimeConstants
+}
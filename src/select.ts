@@ -0,0 +1,300 @@
+import {By, error, Locator, WebElement} from "selenium-webdriver";
+import * as assert from "assert";
+import {inspect} from "util";
+import {Element, retryAssert} from "./driver";
+import {RetryOptions} from "./retryPolicy";
+import NoSuchElementError = error.NoSuchElementError;
+import ElementNotInteractableError = error.ElementNotInteractableError;
+import InvalidArgumentError = error.InvalidArgumentError;
+
+interface DropdownAdapter {
+    /*
+    * Drives one kind of dropdown, every method is called inside a retry
+    * so it may throw on a not yet rendered or stale dropdown.
+    * setSelected throws when the option does not get the requested state
+    * */
+    getOptions(dropdown: Element): Promise<WebElement[]>
+    getOptionText(option: WebElement): Promise<string>
+    getOptionValue(option: WebElement): Promise<string | null>
+    isSelected(option: WebElement): Promise<boolean>
+    isMultiple(dropdown: Element): Promise<boolean>
+    setSelected(dropdown: Element, option: WebElement, selected: boolean): Promise<void>
+}
+
+class NativeSelectAdapter implements DropdownAdapter {
+    async getOptions(dropdown: Element){
+        return dropdown.findElements(By.css('option'));
+    }
+    async getOptionText(option: WebElement){
+        return (await option.getText()).trim();
+    }
+    async getOptionValue(option: WebElement){
+        return option.getAttribute('value');
+    }
+    async isSelected(option: WebElement){
+        return option.isSelected();
+    }
+    async isMultiple(dropdown: Element){
+        return (await (await dropdown.getElement()).getAttribute('multiple')) !== null;
+    }
+    async setSelected(dropdown: Element, option: WebElement, selected: boolean){
+        /*
+        * Click toggles an option of multiple select and selects one of single select
+        * */
+        if (await option.isSelected() === selected){
+            return;
+        }
+        if (!await option.isEnabled()){
+            throw new ElementNotInteractableError(`Option ${await this.getOptionText(option)} is disabled`);
+        }
+        await option.click();
+        if (await option.isSelected() !== selected){
+            throw new ElementNotInteractableError(`Option ${await this.getOptionText(option)} is not ${selected ? 'selected' : 'deselected'} after click`);
+        }
+    }
+}
+
+type CustomDropdownOptions = {
+    options: Locator
+    optionsInside?: boolean
+    multiple?: boolean
+    isSelected?: (option: WebElement) => Promise<boolean>
+    valueAttribute?: string
+}
+
+class CustomDropdownAdapter implements DropdownAdapter {
+    /*
+    * Drives non-native dropdowns: a click on the dropdown element opens the options popup.
+    * Options are searched in the whole document as popups are usually rendered outside
+    * of the component, optionsInside limits the search to the dropdown element
+    * */
+    private readonly settings: CustomDropdownOptions;
+    constructor(settings: CustomDropdownOptions) {
+        this.settings = settings;
+    }
+    private async findOptions(dropdown: Element){
+        if (this.settings.optionsInside){
+            return dropdown.findElements(this.settings.options);
+        }
+        /* resolving the dropdown enters its frame, so options are searched in the document of the dropdown */
+        await dropdown.getElement();
+        return dropdown.webDriver.driver.findElements(this.settings.options);
+    }
+    async getOptions(dropdown: Element){
+        const options = await this.findOptions(dropdown);
+        if (options.length && await options[0].isDisplayed()){
+            return options;
+        }
+        await (await dropdown.getElement()).click();
+        return this.findOptions(dropdown);
+    }
+    async getOptionText(option: WebElement){
+        return (await option.getText()).trim();
+    }
+    async getOptionValue(option: WebElement){
+        return option.getAttribute(this.settings.valueAttribute || 'data-value');
+    }
+    async isSelected(option: WebElement){
+        if (this.settings.isSelected){
+            return this.settings.isSelected(option);
+        }
+        return (await option.getAttribute('aria-selected')) === 'true';
+    }
+    async isMultiple(){
+        return !!this.settings.multiple;
+    }
+    async setSelected(dropdown: Element, option: WebElement, selected: boolean){
+        if (await this.isSelected(option) !== selected){
+            await option.click();
+        }
+    }
+}
+
+const nativeSelectAdapter = new NativeSelectAdapter();
+
+type OptionMatcher = {
+    description: string
+    matches: (option: WebElement, index: number) => Promise<boolean>
+}
+
+class SelectElement {
+    private readonly element: Element;
+    private readonly adapter: DropdownAdapter;
+    constructor(element: Element, adapter: DropdownAdapter = nativeSelectAdapter) {
+        this.element = element;
+        this.adapter = adapter;
+    }
+    toString(): string{
+        return String(this.element);
+    }
+    private async retry<T>(action: string, operation: () => Promise<T>, retryOptions?: RetryOptions): Promise<T>{
+        const webDriver = this.element.webDriver;
+        const retry = webDriver.startRetry(`SelectElement.${action}`, this.element.retryPolicy.with(retryOptions), String(this));
+        return retry.run(() => retry.within(operation), {
+            describe: e => {
+                if (!e.getElementError) e.message += `\nLocators chain: ${this}`;
+            },
+            failure: e => webDriver.failure(e, `SelectElement.${action}`, retry, String(this), this.element)
+        });
+    }
+    private async describeOptions(options: WebElement[]){
+        const texts = [];
+        for (const option of options){
+            texts.push(await this.adapter.getOptionText(option));
+        }
+        return inspect(texts);
+    }
+    private async setOptions(action: string, matcher: OptionMatcher, selected: boolean, retryOptions?: RetryOptions){
+        /*
+        * Options are re-read on every attempt, adapter verifies the option state after click
+        * */
+        return this.retry(action, async () => {
+            const options = await this.adapter.getOptions(this.element);
+            let found = false;
+            for (const [index, option] of options.entries()){
+                if (await matcher.matches(option, index)){
+                    found = true;
+                    await this.adapter.setSelected(this.element, option, selected);
+                    break;
+                }
+            }
+            if (!found){
+                throw new NoSuchElementError(`No option ${matcher.description}, options: ${await this.describeOptions(options)}`);
+            }
+        }, retryOptions);
+    }
+    private byText(text: string | RegExp): OptionMatcher{
+        return {
+            description: `with text ${inspect(text)}`,
+            matches: async option => {
+                const optionText = await this.adapter.getOptionText(option);
+                return text instanceof RegExp ? text.test(optionText) : optionText === text;
+            }
+        };
+    }
+    private byValue(value: string): OptionMatcher{
+        return {
+            description: `with value ${inspect(value)}`,
+            matches: async option => (await this.adapter.getOptionValue(option)) === value
+        };
+    }
+    private byIndex(index: number): OptionMatcher{
+        return {
+            description: `at index ${index}`,
+            matches: async (option, optionIndex) => optionIndex === index
+        };
+    }
+    async selectByText(text: string | RegExp, retryOptions?: RetryOptions){
+        return this.setOptions('selectByText', this.byText(text), true, retryOptions);
+    }
+    async selectByValue(value: string, retryOptions?: RetryOptions){
+        return this.setOptions('selectByValue', this.byValue(value), true, retryOptions);
+    }
+    async selectByIndex(index: number, retryOptions?: RetryOptions){
+        return this.setOptions('selectByIndex', this.byIndex(index), true, retryOptions);
+    }
+    async deselectByText(text: string | RegExp, retryOptions?: RetryOptions){
+        await this.ensureMultiple('deselectByText');
+        return this.setOptions('deselectByText', this.byText(text), false, retryOptions);
+    }
+    async deselectByValue(value: string, retryOptions?: RetryOptions){
+        await this.ensureMultiple('deselectByValue');
+        return this.setOptions('deselectByValue', this.byValue(value), false, retryOptions);
+    }
+    async deselectAll(retryOptions?: RetryOptions){
+        await this.ensureMultiple('deselectAll');
+        return this.retry('deselectAll', async () => {
+            for (const option of await this.adapter.getOptions(this.element)){
+                await this.adapter.setSelected(this.element, option, false);
+            }
+            const selected = await this.getSelectedOptions();
+            if (selected.length){
+                throw new ElementNotInteractableError(`Options are still selected: ${await this.describeOptions(selected)}`);
+            }
+        }, retryOptions);
+    }
+    private async ensureMultiple(action: string){
+        if (!await this.isMultiple()){
+            throw new InvalidArgumentError(`${action} is supported only for multiple select: ${this}`);
+        }
+    }
+    async isMultiple(retryOptions?: RetryOptions): Promise<boolean>{
+        return this.retry('isMultiple', () => this.adapter.isMultiple(this.element), retryOptions);
+    }
+    private async getSelectedOptions(){
+        const selected = [];
+        for (const option of await this.adapter.getOptions(this.element)){
+            if (await this.adapter.isSelected(option)){
+                selected.push(option);
+            }
+        }
+        return selected;
+    }
+    async getOptions(retryOptions?: RetryOptions): Promise<WebElement[]>{
+        return this.retry('getOptions', () => this.adapter.getOptions(this.element), retryOptions);
+    }
+    async getOptionTexts(retryOptions?: RetryOptions): Promise<string[]>{
+        return this.retry('getOptionTexts', async () => {
+            const texts = [];
+            for (const option of await this.adapter.getOptions(this.element)){
+                texts.push(await this.adapter.getOptionText(option));
+            }
+            return texts;
+        }, retryOptions);
+    }
+    async getSelectedTexts(retryOptions?: RetryOptions): Promise<string[]>{
+        return this.retry('getSelectedTexts', async () => {
+            const texts = [];
+            for (const option of await this.getSelectedOptions()){
+                texts.push(await this.adapter.getOptionText(option));
+            }
+            return texts;
+        }, retryOptions);
+    }
+    async getSelectedValues(retryOptions?: RetryOptions): Promise<Array<string | null>>{
+        return this.retry('getSelectedValues', async () => {
+            const values = [];
+            for (const option of await this.getSelectedOptions()){
+                values.push(await this.adapter.getOptionValue(option));
+            }
+            return values;
+        }, retryOptions);
+    }
+    private async expectSelected(action: string, getActual: () => Promise<Array<string | null>>,
+                                 expected: string | string[], failMessage?: string, retryOptions?: RetryOptions){
+        const webDriver = this.element.webDriver;
+        const expectedList = Array.isArray(expected) ? expected : [expected];
+        return retryAssert(getActual, actual => assert.deepStrictEqual(actual, expectedList), {
+            message: failMessage,
+            action: `SelectElement.${action}`,
+            retryPolicy: this.element.retryPolicy.with(retryOptions),
+            onFailure: e => webDriver.attachFailureArtifacts(e, `SelectElement.${action}`, this.element),
+            observer: webDriver.events.observe(`SelectElement.${action}`, String(this)),
+            target: String(this)
+        });
+    }
+    async expectSelectedTextToBe(expected: string | string[], failMessage?: string, retryOptions?: RetryOptions){
+        /*
+        * Array is expected for multiple select, in the options order
+        * */
+        return this.expectSelected('expectSelectedTextToBe', () => this.getSelectedTexts(),
+            expected, failMessage, retryOptions);
+    }
+    async expectSelectedValueToBe(expected: string | string[], failMessage?: string, retryOptions?: RetryOptions){
+        return this.expectSelected('expectSelectedValueToBe', () => this.getSelectedValues(),
+            expected, failMessage, retryOptions);
+    }
+    async expectOptionsToBe(expected: string[], failMessage?: string, retryOptions?: RetryOptions){
+        return this.expectSelected('expectOptionsToBe', () => this.getOptionTexts(),
+            expected, failMessage, retryOptions);
+    }
+}
+
+export {
+    SelectElement,
+    DropdownAdapter,
+    NativeSelectAdapter,
+    CustomDropdownAdapter,
+    CustomDropdownOptions,
+    nativeSelectAdapter
+}
@@ -0,0 +1,62 @@
+import {error, IWebDriverCookie, WebDriver} from "selenium-webdriver";
+import NoSuchSessionError = error.NoSuchSessionError;
+
+type SessionState = {
+    url: string
+    cookies: IWebDriverCookie[]
+}
+
+/* errors of a crashed browser or a session killed by the grid which are not NoSuchSessionError */
+const lostSessionMessages = /invalid session id|session deleted because of page crash|chrome not reachable|not connected to devtools|browser has (closed|disconnected)/i;
+/* before the session is established these mean a wrong hub url or a hub which is down */
+const connectionLostMessages = /ECONNREFUSED|ECONNRESET|socket hang up/i;
+
+class SessionLostError extends NoSuchSessionError {
+    /*
+    * Stays NoSuchSessionError so it is never retried and callers catching it keep working
+    * */
+    readonly action: string;
+    readonly cause: any;
+    constructor(action: string, cause: any, reason: string) {
+        super(`Session was lost during ${action}, ${reason}\nCause: ${cause?.name ? `${cause.name}: ` : ''}${cause?.message ?? cause}`);
+        this.action = action;
+        this.cause = cause;
+    }
+}
+
+function isSessionLostError(e: any, sessionEstablished = true): boolean{
+    if (!e || e instanceof SessionLostError){
+        return false;
+    }
+    const message = String(e.message);
+    return e instanceof NoSuchSessionError || lostSessionMessages.test(message) ||
+        sessionEstablished && connectionLostMessages.test(message);
+}
+
+async function captureSessionState(webDriver: WebDriver): Promise<SessionState>{
+    return {
+        url: await webDriver.getCurrentUrl(),
+        cookies: await webDriver.manage().getCookies()
+    };
+}
+
+async function restoreSessionState(webDriver: WebDriver, {url, cookies}: SessionState){
+    /*
+    * Cookies can be added only on a page of their domain, so the page is loaded twice
+    * */
+    await webDriver.get(url);
+    if (cookies.length){
+        for (const cookie of cookies){
+            await webDriver.manage().addCookie(cookie);
+        }
+        await webDriver.navigate().refresh();
+    }
+}
+
+export {
+    SessionLostError,
+    SessionState,
+    isSessionLostError,
+    captureSessionState,
+    restoreSessionState
+}
@@ -0,0 +1,82 @@
+import * as assert from "assert";
+import {AsyncLocalStorage} from "async_hooks";
+
+type SoftFailure = {
+    message: string
+    target?: string
+    stack?: string
+    error: any
+}
+
+function getCallerFrames(stack: string | undefined, depth = 3){
+    /*
+    * Only frames of the caller code are useful in the aggregated report
+    * */
+    return (stack || '')
+        .split('\n')
+        .filter(line => line.trim().startsWith('at ') && !/driver\.ts|softAssertions\.ts|node_modules|internal\//.test(line))
+        .slice(0, depth)
+        .join('\n');
+}
+
+class SoftAssertionScope {
+    readonly failures: SoftFailure[] = [];
+    record(error: any, target?: string){
+        this.failures.push({
+            message: error?.message || String(error),
+            target,
+            stack: getCallerFrames(error?.stack),
+            error
+        });
+    }
+    toError(): assert.AssertionError{
+        const details = this.failures.map(({message, target, stack}, index) => [
+            `${index + 1}) ${message}`,
+            target ? `   Element: ${target}` : '',
+            stack ? stack.split('\n').map(line => `   ${line.trim()}`).join('\n') : ''
+        ].filter(line => line).join('\n'));
+        const error = new assert.AssertionError({
+            message: [`${this.failures.length} soft assertion(s) failed:`, ...details].join('\n\n'),
+            stackStartFn: softly
+        });
+        return Object.assign(error, {failures: this.failures});
+    }
+}
+
+/* async context, so expectations running concurrently outside of softly() are not collected */
+const softScopeContext = new AsyncLocalStorage<SoftAssertionScope>();
+
+function currentSoftScope(): SoftAssertionScope | null{
+    return softScopeContext.getStore() || null;
+}
+
+async function softly<T>(fn: () => Promise<T>): Promise<T | undefined>{
+    /*
+    * Failed expectations inside fn are recorded instead of thrown,
+    * one aggregated AssertionError is thrown at the end of the scope.
+    * Nested scopes hand their failures over to the enclosing one.
+    * */
+    const outerScope = currentSoftScope();
+    const scope = new SoftAssertionScope();
+    let result: T | undefined;
+    try {
+        result = await softScopeContext.run(scope, fn);
+    } catch (e) {
+        scope.record(e);
+    }
+    if (!scope.failures.length){
+        return result;
+    }
+    if (outerScope){
+        outerScope.failures.push(...scope.failures);
+        return result;
+    }
+    throw scope.toError();
+}
+
+export {
+    softly,
+    currentSoftScope,
+    SoftAssertionScope,
+    SoftFailure
+}
@@ -0,0 +1,103 @@
+import {promises as fs} from "fs";
+import * as path from "path";
+import {IWebDriverCookie} from "selenium-webdriver";
+
+type StorageItems = {[key: string]: string};
+
+type OriginStorage = {
+    origin: string
+    /* page the storage was read on, it is opened again to write the storage back */
+    url: string
+    localStorage: StorageItems
+    sessionStorage: StorageItems
+}
+
+type StorageState = {
+    cookies: IWebDriverCookie[]
+    origins: OriginStorage[]
+}
+
+class StorageStateError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'StorageStateError';
+    }
+}
+
+function readStorageState(){
+    /*
+    * Runs in the browser
+    * */
+    function readItems(storage: Storage){
+        const items: {[key: string]: string} = {};
+        for (let index = 0; index < storage.length; index++){
+            const key = storage.key(index) as string;
+            items[key] = storage.getItem(key) as string;
+        }
+        return items;
+    }
+    return {
+        origin: location.origin,
+        url: location.href,
+        localStorage: readItems(localStorage),
+        sessionStorage: readItems(sessionStorage)
+    };
+}
+
+function writeStorageState(origin: string, localItems: {[key: string]: string}, sessionItems: {[key: string]: string}){
+    /*
+    * Runs in the browser, returns the actual origin when the page was redirected away from the saved one
+    * */
+    if (location.origin !== origin){
+        return location.origin;
+    }
+    Object.keys(localItems).forEach(key => localStorage.setItem(key, localItems[key]));
+    Object.keys(sessionItems).forEach(key => sessionStorage.setItem(key, sessionItems[key]));
+    return null;
+}
+
+function cookieMatchesOrigin(cookie: IWebDriverCookie, origin: string){
+    const host = new URL(origin).hostname;
+    const domain = (cookie.domain || host).replace(/^\./, '');
+    return host === domain || host.endsWith(`.${domain}`);
+}
+
+function mergeCookies(cookies: IWebDriverCookie[]){
+    /*
+    * Cookies of a parent domain are returned on every origin under it, the last read wins
+    * */
+    const merged = new Map<string, IWebDriverCookie>();
+    cookies.forEach(cookie => merged.set(`${cookie.name};${cookie.domain};${cookie.path}`, cookie));
+    return [...merged.values()];
+}
+
+async function writeStorageStateFile(filePath: string, state: StorageState){
+    await fs.mkdir(path.dirname(path.resolve(filePath)), {recursive: true});
+    await fs.writeFile(filePath, JSON.stringify(state, null, 2));
+}
+
+async function readStorageStateFile(filePath: string): Promise<StorageState>{
+    let state;
+    try {
+        state = JSON.parse(await fs.readFile(filePath, 'utf8'));
+    } catch (e) {
+        throw new StorageStateError(`Storage state is not read from ${filePath}: ${e.message}`);
+    }
+    if (!Array.isArray(state?.cookies) || !Array.isArray(state?.origins)){
+        throw new StorageStateError(`${filePath} is not a storage state, expected {"cookies": [...], "origins": [...]}`);
+    }
+    return state;
+}
+
+export {
+    StorageState,
+    OriginStorage,
+    StorageItems,
+    StorageStateError,
+    readStorageState,
+    writeStorageState,
+    cookieMatchesOrigin,
+    mergeCookies,
+    readStorageStateFile,
+    writeStorageStateFile
+}
@@ -0,0 +1,206 @@
+import {By, Locator, WebElement} from "selenium-webdriver";
+import * as assert from "assert";
+import {inspect} from "util";
+import {Element, retryAssert} from "./driver";
+import {RetryOptions} from "./retryPolicy";
+
+type TableRow = {[column: string]: string};
+
+type RowMatcher = {[column: string]: string | RegExp};
+
+type SortDirection = 'asc' | 'desc';
+
+type TableOptions = {
+    /* searched inside the table element, defaults read a native table */
+    rows?: Locator
+    cells?: Locator
+    headerCells?: Locator
+    /* column names for grids without a header row, override header cells */
+    columns?: string[]
+}
+
+const nativeRows = By.xpath('./tbody/tr[td] | ./tr[td]');
+const nativeCells = By.xpath('./th | ./td');
+const nativeHeaderCells = By.xpath('./thead/tr[last()]/th | ./thead/tr[last()]/td');
+/* tables without thead keep headers in the first row */
+const firstRowHeaderCells = By.xpath('./tbody/tr[1][not(td)]/th | ./tr[1][not(td)]/th');
+
+function formatRow(row: TableRow | RowMatcher){
+    return inspect(row, {breakLength: Infinity});
+}
+
+function matchesRow(row: TableRow, matcher: RowMatcher){
+    return Object.entries(matcher).every(([column, expected]) => column in row &&
+        (expected instanceof RegExp ? expected.test(row[column]) : row[column] === expected));
+}
+
+function describeRowsDiff(actual: TableRow[], expected: TableRow[]){
+    /*
+    * One line per differing row, equal rows are skipped
+    * */
+    const lines = [];
+    for (let index = 0; index < Math.max(actual.length, expected.length); index++){
+        const actualRow = actual[index];
+        const expectedRow = expected[index];
+        if (!actualRow){
+            lines.push(`  row ${index} is missing, expected: ${formatRow(expectedRow)}`);
+        } else if (!expectedRow){
+            lines.push(`  row ${index} is unexpected: ${formatRow(actualRow)}`);
+        } else {
+            const columns = [...new Set([...Object.keys(expectedRow), ...Object.keys(actualRow)])];
+            const cells = columns.filter(column => actualRow[column] !== expectedRow[column])
+                .map(column => `${column}: ${inspect(actualRow[column])} instead of ${inspect(expectedRow[column])}`);
+            if (cells.length){
+                lines.push(`  row ${index}: ${cells.join(', ')}`);
+            }
+        }
+    }
+    return lines.join('\n');
+}
+
+function compareCells(left: string, right: string){
+    /*
+    * Numbers, including ones with thousands separators and units, compare by value
+    * */
+    const toNumber = (text: string) => /^[-+]?[\d\s,]*\.?\d+\s*\S{0,3}$/.test(text.trim()) ?
+        parseFloat(text.replace(/[\s,]/g, '')) : NaN;
+    const [leftNumber, rightNumber] = [toNumber(left), toNumber(right)];
+    if (!isNaN(leftNumber) && !isNaN(rightNumber)){
+        return leftNumber - rightNumber;
+    }
+    return left.localeCompare(right);
+}
+
+class Table {
+    /*
+    * Reads a table or a div grid into rows keyed by header texts, every read is retried as a whole
+    * */
+    readonly element: Element;
+    private readonly options: TableOptions;
+    constructor(element: Element, options: TableOptions = {}) {
+        this.element = element;
+        this.options = options;
+    }
+    toString(): string{
+        return String(this.element);
+    }
+    private async retry<T>(action: string, operation: () => Promise<T>, retryOptions?: RetryOptions): Promise<T>{
+        const webDriver = this.element.webDriver;
+        const retry = webDriver.startRetry(`Table.${action}`, this.element.retryPolicy.with(retryOptions), String(this));
+        return retry.run(() => retry.within(operation), {
+            describe: e => {
+                if (!e.getElementError) e.message += `\nLocators chain: ${this}`;
+            },
+            failure: e => webDriver.failure(e, `Table.${action}`, retry, String(this), this.element)
+        });
+    }
+    private async readTexts(cells: WebElement[]){
+        const texts = [];
+        for (const cell of cells){
+            texts.push((await cell.getText()).trim());
+        }
+        return texts;
+    }
+    private async readHeaders(): Promise<string[]>{
+        if (this.options.columns){
+            return this.options.columns;
+        }
+        if (this.options.headerCells){
+            return this.readTexts(await this.element.findElements(this.options.headerCells));
+        }
+        const headerCells = await this.element.findElements(nativeHeaderCells);
+        return this.readTexts(headerCells.length ? headerCells : await this.element.findElements(firstRowHeaderCells));
+    }
+    private async readRows(): Promise<TableRow[]>{
+        const headers = await this.readHeaders();
+        const rows = [];
+        for (const row of await this.element.findElements(this.options.rows || nativeRows)){
+            const texts = await this.readTexts(await row.findElements(this.options.cells || nativeCells));
+            rows.push(Object.fromEntries(texts.map((text, index) => [headers[index] || String(index), text])));
+        }
+        return rows;
+    }
+    async getHeaders(retryOptions?: RetryOptions): Promise<string[]>{
+        return this.retry('getHeaders', () => this.readHeaders(), retryOptions);
+    }
+    async getRows(retryOptions?: RetryOptions): Promise<TableRow[]>{
+        return this.retry('getRows', () => this.readRows(), retryOptions);
+    }
+    async getColumn(column: string, retryOptions?: RetryOptions): Promise<string[]>{
+        return this.retry('getColumn', async () => {
+            const headers = await this.readHeaders();
+            if (!headers.includes(column)){
+                throw new assert.AssertionError({message: `No column ${inspect(column)}, columns: ${inspect(headers)}`});
+            }
+            return (await this.readRows()).map(row => row[column]);
+        }, retryOptions);
+    }
+    private async expectRows(action: string, assertion: (rows: TableRow[]) => void, failMessage?: string,
+                             retryOptions?: RetryOptions){
+        const webDriver = this.element.webDriver;
+        return retryAssert(() => this.getRows(), assertion, {
+            message: failMessage,
+            action: `Table.${action}`,
+            retryPolicy: this.element.retryPolicy.with(retryOptions),
+            onFailure: e => webDriver.attachFailureArtifacts(e, `Table.${action}`, this.element),
+            observer: webDriver.events.observe(`Table.${action}`, String(this)),
+            target: String(this)
+        });
+    }
+    async expectRowsToEqual(expected: TableRow[], failMessage?: string, retryOptions?: RetryOptions){
+        /*
+        * Rows are compared in the table order with every column
+        * */
+        return this.expectRows('expectRowsToEqual', actual => {
+            const diff = describeRowsDiff(actual, expected);
+            if (diff){
+                throw new assert.AssertionError({message: `Table rows differ:\n${diff}`, actual, expected, operator: 'expectRowsToEqual'});
+            }
+        }, failMessage, retryOptions);
+    }
+    async expectToContainRow(matcher: RowMatcher, failMessage?: string, retryOptions?: RetryOptions){
+        /*
+        * Passes when any row has every given column equal to the string or matching the RegExp
+        * */
+        return this.expectRows('expectToContainRow', actual => {
+            if (!actual.some(row => matchesRow(row, matcher))){
+                throw new assert.AssertionError({
+                    message: `No row matches ${formatRow(matcher)}, rows:\n${actual.map(row => `  ${formatRow(row)}`).join('\n')}`,
+                    actual,
+                    expected: matcher,
+                    operator: 'expectToContainRow'
+                });
+            }
+        }, failMessage, retryOptions);
+    }
+    async expectColumnToBeSorted(column: string, direction: SortDirection = 'asc', failMessage?: string,
+                                 compare: (left: string, right: string) => number = compareCells,
+                                 retryOptions?: RetryOptions){
+        return this.expectRows('expectColumnToBeSorted', actual => {
+            if (actual.length && !(column in actual[0])){
+                throw new assert.AssertionError({message: `No column ${inspect(column)}, columns: ${inspect(Object.keys(actual[0]))}`});
+            }
+            const values = actual.map(row => row[column]);
+            for (let index = 1; index < values.length; index++){
+                const order = compare(values[index - 1], values[index]);
+                if (direction === 'asc' ? order > 0 : order < 0){
+                    throw new assert.AssertionError({
+                        message: `Column ${inspect(column)} is not sorted ${direction === 'asc' ? 'ascending' : 'descending'}: ` +
+                            `row ${index} ${inspect(values[index])} comes after row ${index - 1} ${inspect(values[index - 1])}\n` +
+                            `Column values: ${inspect(values)}`,
+                        actual: values,
+                        operator: 'expectColumnToBeSorted'
+                    });
+                }
+            }
+        }, failMessage, retryOptions);
+    }
+}
+
+export {
+    Table,
+    TableOptions,
+    TableRow,
+    RowMatcher,
+    SortDirection
+}
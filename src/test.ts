@@ -0,0 +1,298 @@
+import * as assert from "assert";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {By, error} from "selenium-webdriver";
+import {DeadlineExceededError, withDeadline} from "./deadline";
+import {Driver} from "./driver";
+import {expect} from "./expect";
+import {FakeDocument} from "./fakeDom";
+import {FakeWebDriverServer} from "./fakeWebDriverServer";
+import {encodePng} from "./png";
+import {SessionLostError} from "./sessionRecovery";
+import {StorageStateError} from "./storageState";
+import NoSuchCookieError = error.NoSuchCookieError;
+import NoSuchElementError = error.NoSuchElementError;
+
+/*
+* Drives Driver and Element through FakeWebDriverServer, one test per scripted page behaviour:
+*   npm test
+* */
+
+type TestCase = {
+    name: string
+    page: (document: FakeDocument) => void
+    body: (webDriver: Driver, server: FakeWebDriverServer) => Promise<void>
+}
+
+const tests: TestCase[] = [];
+
+function test(name: string, page: TestCase['page'], body: TestCase['body']){
+    tests.push({name, page, body});
+}
+
+test('retries clicks intercepted by an overlay', document => {
+    document.body.append('button', {id: 'save'}, 'Save')
+        .interceptClicks(2, 'div class="overlay"')
+        .onClick(element => element.text = 'Saved');
+}, async webDriver => {
+    await webDriver.$('#save').click();
+    assert.strictEqual(await webDriver.$('#save').getText(), 'Saved');
+});
+
+test('finds stale elements again', document => {
+    document.body.append('span', {id: 'status'}, 'Ready').staleOnFirstAccess(2);
+}, async webDriver => {
+    assert.strictEqual(await webDriver.$('#status').retryGetText(), 'Ready');
+});
+
+test('waits for elements which appear later', document => {
+    document.body.append('div', {id: 'toast'}, 'Done').appearAfter(300);
+}, async webDriver => {
+    assert.strictEqual(await webDriver.$('#toast').getText(), 'Done');
+});
+
+test('waits for removal even when missing elements are not retriable', document => {
+    document.body.append('div', {id: 'spinner'}, 'Loading').disappearAfter(300);
+}, async webDriver => {
+    await webDriver.$('#spinner').waitForNotPresent({isRetriable: e => !(e instanceof NoSuchElementError)});
+});
+
+test('takes a retry policy after the keys', document => {
+    document.body.append('input', {id: 'search'}).appearAfter(300);
+}, async webDriver => {
+    await webDriver.$('#search').sendKeys('shoes', {timeout: 1000});
+    assert.strictEqual(await webDriver.$('#search').getAttribute('value'), 'shoes');
+    await assert.rejects(webDriver.$('#missing').sendKeys('shoes', {timeout: 300}), (e: Error) =>
+        e instanceof NoSuchElementError && e.message.includes('timeout 300ms'));
+});
+
+test('finds elements inside shadow roots', document => {
+    document.body.append('x-card', {id: 'card'}).appendShadow('span', {class: 'title'}, 'Shadow title');
+}, async webDriver => {
+    assert.strictEqual(await webDriver.$('#card').shadow().$('.title').getText(), 'Shadow title');
+});
+
+test('finds elements inside frames and returns to the top document', document => {
+    document.body.append('h1', {id: 'header'}, 'Top');
+    document.body.append('iframe', {id: 'editor'}).frame(frame => frame.body.append('p', {id: 'content'}, 'Framed'));
+}, async webDriver => {
+    assert.strictEqual(await webDriver.frame('#editor').$('#content').getText(), 'Framed');
+    assert.strictEqual((await webDriver.findElements(By.css('#header'))).length, 1);
+    assert.strictEqual(await webDriver.$('#header').getText(), 'Top');
+});
+
+test('searches inside collection items', document => {
+    const list = document.body.append('ul');
+    list.append('li').append('span', {class: 'cell'}, 'First');
+    const second = list.append('li');
+    second.append('span', {class: 'cell'}, 'Second');
+    list.append('li').append('span', {class: 'cell'}, 'Third');
+}, async webDriver => {
+    const cells = await webDriver.$$('li').get(1).$$('.cell').getElements();
+    assert.strictEqual(cells.length, 1);
+    assert.strictEqual(await cells[0].getText(), 'Second');
+});
+
+test('reads native tables with the default locators', document => {
+    const table = document.body.append('table', {id: 'users'});
+    const header = table.append('thead').append('tr');
+    header.append('th', {}, 'Name');
+    header.append('th', {}, 'Age');
+    const body = table.append('tbody');
+    for (const [name, age] of [['Alice', '31'], ['Bob', '27']]){
+        const row = body.append('tr');
+        row.append('th', {}, name);
+        row.append('td', {}, age);
+    }
+    const plain = document.body.append('table', {id: 'plain'}).append('tbody');
+    plain.append('tr').append('th', {}, 'City');
+    plain.append('tr').append('td', {}, 'Oslo');
+}, async webDriver => {
+    assert.deepStrictEqual(await webDriver.$('#users').asTable().getRows(), [{Name: 'Alice', Age: '31'}, {Name: 'Bob', Age: '27'}]);
+    assert.deepStrictEqual(await webDriver.$('#plain').asTable().getRows(), [{City: 'Oslo'}]);
+});
+
+test('reports the last assertion failure when the retry timeout runs out', document => {
+    document.body.append('table', {id: 'users'}).append('tr').append('td', {}, 'Bob');
+}, async webDriver => {
+    const table = webDriver.$('#users').withRetryPolicy({timeout: 450}).asTable({rows: By.css('tr'), cells: By.css('td'), columns: ['Name']});
+    await assert.rejects(table.expectRowsToEqual([{Name: 'Alice'}]), (e: Error) =>
+        e instanceof assert.AssertionError && e.message.includes(`row 0: Name: 'Bob' instead of 'Alice'`));
+});
+
+test('keeps the last assertion failure when an enclosing deadline cuts off an expectation', document => {
+    document.body.append('div', {id: 'greeting'}, 'hello');
+}, async webDriver => {
+    /* the deadline may run out in the nested text retry or between attempts, both report the mismatch */
+    for (let timeout = 150; timeout < 500; timeout += 37){
+        await assert.rejects(withDeadline(timeout, () => webDriver.$('#greeting').expectTextToBe('x')), (e: Error) =>
+            e instanceof DeadlineExceededError && e.message.startsWith('Element.expectTextToBe failed') &&
+            e.message.includes('Last error: AssertionError') && e.message.includes(`'hello'`));
+    }
+});
+
+test('reports a missing cookie as no such cookie', () => undefined, async webDriver => {
+    await assert.rejects(webDriver.driver.manage().getCookie('missing'), NoSuchCookieError);
+});
+
+test('recovers a lost session with its url and cookies', document => {
+    document.body.append('div', {id: 'greeting'}, 'hello');
+}, async (webDriver, server) => {
+    webDriver.setSessionRecovery(true);
+    await webDriver.driver.manage().addCookie({name: 'token', value: 'secret'});
+    await webDriver.rememberSessionState();
+    const url = await webDriver.getCurrentUrl();
+    server.sessions.clear();
+    await expect(webDriver.$('#greeting')).toHaveText('hello');
+    assert.strictEqual(await webDriver.getCurrentUrl(), url);
+    assert.strictEqual((await webDriver.driver.manage().getCookie('token')).value, 'secret');
+    server.sessions.clear();
+    await webDriver.$('#greeting').expectTextToBe('hello');
+});
+
+test('reports a lost session when recovery is off', document => {
+    document.body.append('div', {id: 'greeting'}, 'hello');
+}, async (webDriver, server) => {
+    server.sessions.clear();
+    await assert.rejects(expect(webDriver.$('#greeting')).toHaveText('hello'), (e: Error) =>
+        e instanceof SessionLostError && e.message.startsWith('Session was lost during expect.toHaveText, session recovery is off'));
+});
+
+test('does not take a refused connection for a lost session before the session is established', () => undefined, async () => {
+    const seleniumHubUrl = process.env.WDRW_SELENIUM_HUB_URL;
+    process.env.WDRW_SELENIUM_HUB_URL = 'http://127.0.0.1:1/wd/hub';
+    const webDriver = new Driver().setSessionRecovery(true).setRetryPolicy({timeout: 300});
+    try {
+        await assert.rejects(webDriver.$('#greeting').retryGetText(), (e: Error) =>
+            !(e instanceof SessionLostError) && e.message.includes('ECONNREFUSED'));
+    } finally {
+        process.env.WDRW_SELENIUM_HUB_URL = seleniumHubUrl;
+        await webDriver.quit().catch(() => undefined);
+    }
+});
+
+async function withBaselines(webDriver: Driver, body: (baselinePath: (name: string) => string) => Promise<void>){
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'baselines-'));
+    process.env.WDRW_BASELINE_DIR = directory;
+    try {
+        await body(name => path.join(directory, webDriver.browser, `${name}.png`));
+    } finally {
+        fs.rmSync(directory, {recursive: true, force: true});
+    }
+}
+
+/* the fake browser screenshot is a single pixel of another color */
+const redPixel = encodePng({width: 1, height: 1, data: Buffer.from([255, 0, 0, 255])});
+
+test('writes a missing baseline, matches it and reports a mismatch with images', document => {
+    document.body.append('div', {id: 'badge'}, 'New');
+}, async webDriver => withBaselines(webDriver, async baselinePath => {
+    const badge = webDriver.$('#badge');
+    await assert.rejects(badge.expectToMatchScreenshot('badge'), (e: Error) =>
+        e instanceof assert.AssertionError && e.message.includes('is missing'));
+    await badge.expectToMatchScreenshot('badge', {createMissing: true});
+    assert.ok(fs.existsSync(baselinePath('badge')));
+    await badge.expectToMatchScreenshot('badge');
+    fs.writeFileSync(baselinePath('badge'), redPixel);
+    await assert.rejects(badge.expectToMatchScreenshot('badge', {timeout: 300}), (e: Error) =>
+        e instanceof assert.AssertionError && e.message.includes('Screenshot differs from baseline in 1 pixels') &&
+        e.message.includes('Actual image:') && e.message.includes('Diff image:'));
+    await badge.expectToMatchScreenshot('badge', {mask: [badge]});
+}));
+
+test('retries screenshots of stale targets and masks which appear later', document => {
+    document.body.append('div', {id: 'badge'}, 'New').staleOnFirstAccess(2);
+    document.body.append('div', {id: 'clock'}, '12:00').appearAfter(400);
+}, async webDriver => withBaselines(webDriver, async baselinePath => {
+    fs.mkdirSync(path.dirname(baselinePath('badge')), {recursive: true});
+    fs.writeFileSync(baselinePath('badge'), redPixel);
+    await webDriver.$('#badge').expectToMatchScreenshot('badge', {mask: [webDriver.$('#clock')]});
+}));
+
+async function withStorageState(filePath: string, body: () => Promise<void>){
+    process.env.WDRW_STORAGE_STATE = filePath;
+    try {
+        await body();
+    } finally {
+        delete process.env.WDRW_STORAGE_STATE;
+    }
+}
+
+test('saves storage state and preloads it into new sessions from config', document => {
+    document.body.append('div', {id: 'greeting'}, 'hello');
+}, async (webDriver, server) => {
+    /* the fake browser does not run scripts, localStorage of every session and origin is kept here */
+    const localStorages = new Map<string, {[key: string]: string}>();
+    server.onScript('readStorageState', (args, session) => {
+        const {origin, href} = new URL(session.document.url);
+        return {origin, url: href, localStorage: localStorages.get(session.id + origin) || {}, sessionStorage: {}};
+    });
+    server.onScript('writeStorageState', ([origin, localStorage], session) => {
+        const actualOrigin = new URL(session.document.url).origin;
+        if (actualOrigin !== origin) return actualOrigin;
+        localStorages.set(session.id + origin, localStorage);
+        return null;
+    });
+    const filePath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'storage-')), 'state.json');
+    const [sessionId] = server.sessions.keys();
+    localStorages.set(sessionId + 'http://app.test', {token: 'abc'});
+    await webDriver.driver.manage().addCookie({name: 'sid', value: '42'});
+    await webDriver.saveStorageState(filePath);
+    await webDriver.quit();
+    await withStorageState(filePath, async () => {
+        await webDriver.$('#greeting').retryGetText();
+        const [newSessionId] = server.sessions.keys();
+        assert.notStrictEqual(newSessionId, sessionId);
+        assert.deepStrictEqual(localStorages.get(newSessionId + 'http://app.test'), {token: 'abc'});
+        assert.strictEqual((await webDriver.driver.manage().getCookie('sid')).value, '42');
+    });
+    fs.rmSync(path.dirname(filePath), {recursive: true, force: true});
+});
+
+test('reports a failed storage state preload to the first call only', document => {
+    document.body.append('div', {id: 'greeting'}, 'hello');
+}, async webDriver => {
+    const url = await webDriver.getCurrentUrl();
+    await webDriver.quit();
+    await withStorageState(path.join(os.tmpdir(), 'missing-storage-state.json'), async () => {
+        await assert.rejects(webDriver.$('#greeting').retryGetText(), StorageStateError);
+        await webDriver.get(url);
+        assert.strictEqual(await webDriver.$('#greeting').retryGetText(), 'hello');
+    });
+});
+
+async function run(){
+    const server = new FakeWebDriverServer();
+    process.env.WDRW_SELENIUM_HUB_URL = await server.start();
+    process.env.WDRW_DIRECT_CONNECT = 'false';
+    let failed = 0;
+    try {
+        for (const [index, {name, page, body}] of tests.entries()){
+            const url = `http://app.test/${index}`;
+            server.page(url, page);
+            const webDriver = new Driver();
+            webDriver.setRetryPolicy({timeout: 2000});
+            try {
+                await webDriver.get(url);
+                await body(webDriver, server);
+                console.log(`ok ${name}`);
+            } catch (e) {
+                failed++;
+                console.log(`not ok ${name}\n${e.stack}`);
+            } finally {
+                /* sessions killed by a test can not be quit */
+                await webDriver.quit().catch(() => undefined);
+            }
+        }
+    } finally {
+        await server.stop();
+    }
+    console.log(`${tests.length - failed} of ${tests.length} tests passed`);
+    process.exitCode = failed ? 1 : 0;
+}
+
+run().catch(e => {
+    console.error(e);
+    process.exitCode = 1;
+});
@@ -0,0 +1,115 @@
+import {promises as fs} from "fs";
+import * as path from "path";
+import {Config, SessionScope} from "./config";
+import {Driver} from "./driver";
+import {RetryPolicyOptions, TimeConstants} from "./retryPolicy";
+
+type RunnerOptions = {
+    sessionScope?: SessionScope
+    screenshotsDir?: string
+    timeoutShare?: number
+}
+
+type RunnerTest = {
+    name: string
+    file?: string
+    timeout?: number
+}
+
+function toFileName(testName: string){
+    return testName.replace(/[^\w.-]+/g, '_').slice(0, 120);
+}
+
+class RunnerSession {
+    /*
+    * Runner independent part of the integrations: quits sessions per file or per test,
+    * keeps retries shorter than the test timeout, takes a screenshot of failed tests
+    * and labels driver events with the test name
+    * */
+    private readonly webDriver: Driver;
+    private readonly options: RunnerOptions;
+    private currentFile: string | undefined;
+    /* driver overrides replaced by the aligned timeout, undefined while nothing is replaced */
+    private savedRetryPolicy: RetryPolicyOptions | null | undefined = undefined;
+    constructor(webDriver: Driver, options: RunnerOptions = {}) {
+        this.webDriver = webDriver;
+        this.options = options;
+    }
+    get sessionScope(): SessionScope{
+        return this.options.sessionScope || Config.sessionScope;
+    }
+    private alignTimeout(testTimeout?: number){
+        /*
+        * A retry outliving the test is killed by the runner with a message
+        * which says nothing about the element, so retries get only a share of the test timeout
+        * */
+        if (!testTimeout || testTimeout <= 0){
+            return;
+        }
+        const retryPolicy = this.webDriver.retryPolicy;
+        const timeout = Math.max(Math.floor(testTimeout * (this.options.timeoutShare || 0.75)), TimeConstants.TenthOfASecond);
+        if (timeout < retryPolicy.timeout){
+            this.savedRetryPolicy = this.webDriver.retryPolicyOverrides;
+            this.webDriver.setRetryPolicy({...this.savedRetryPolicy, timeout});
+        }
+    }
+    private restoreTimeout(){
+        if (this.savedRetryPolicy !== undefined){
+            this.webDriver.setRetryPolicy(this.savedRetryPolicy);
+            this.savedRetryPolicy = undefined;
+        }
+    }
+    async testStarted(test: RunnerTest){
+        if (this.sessionScope === 'file' && this.currentFile !== undefined && test.file !== this.currentFile){
+            await this.quit();
+        }
+        this.currentFile = test.file;
+        this.alignTimeout(test.timeout);
+        this.webDriver.events.emit('testStart', {name: test.name});
+    }
+    async testFinished(test: RunnerTest, error?: any){
+        try {
+            if (error){
+                await this.captureScreenshot(test.name);
+            }
+            this.webDriver.events.emit('testEnd', {name: test.name, passed: !error});
+        } finally {
+            this.restoreTimeout();
+            if (this.sessionScope === 'test'){
+                await this.quit();
+            }
+        }
+    }
+    async finished(){
+        await this.quit();
+    }
+    async captureScreenshot(testName: string): Promise<string | null>{
+        if (!this.webDriver.hasSession){
+            return null;
+        }
+        try {
+            const directory = this.options.screenshotsDir || Config.artifactsDir || 'screenshots';
+            await fs.mkdir(directory, {recursive: true});
+            const filePath = path.join(directory, `${toFileName(testName)}-${+new Date()}.png`);
+            await fs.writeFile(filePath, await this.webDriver.takeScreenshot(), 'base64');
+            console.log(`Failure screenshot of "${testName}": ${filePath}`);
+            return filePath;
+        } catch (e) {
+            console.error(`Failure screenshot of "${testName}" is not taken: ${e.message}`);
+            return null;
+        }
+    }
+    private async quit(){
+        try {
+            await this.webDriver.quit();
+        } catch (e) {
+            console.error(`Driver session is not quit: ${e.message}`);
+        }
+    }
+}
+
+export {
+    RunnerSession,
+    RunnerOptions,
+    RunnerTest
+}
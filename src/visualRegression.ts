@@ -0,0 +1,215 @@
+import * as assert from "assert";
+import * as fs from "fs";
+import * as path from "path";
+import {IRectangle} from "selenium-webdriver";
+import {ArtifactTarget} from "./artifacts";
+import {Config} from "./config";
+import {DriverEvents} from "./events";
+import {decodePng, encodePng, PngImage} from "./png";
+
+/* in css pixels from the top left corner of the screenshot */
+type MaskRegion = {
+    x: number
+    y: number
+    width: number
+    height: number
+}
+
+type ScreenshotOptions = {
+    /* per pixel color distance from 0 to 1 which still counts as the same color */
+    threshold?: number
+    maxDiffPixels?: number
+    maxDiffRatio?: number
+    /* regions or elements which are ignored, e.g. clocks and avatars */
+    mask?: Array<MaskRegion | ArtifactTarget>
+    /* writes a missing baseline from the first stable shot instead of failing */
+    createMissing?: boolean
+    timeout?: number
+    message?: string
+}
+
+/* what the screenshot shows in css pixels, masks of elements are placed relative to it */
+type ScreenshotCapture = {
+    screenshot: string
+    origin: IRectangle
+}
+
+/* a capture or mask which failed with a retriable error is a failed shot retried like a mismatch */
+type Shot = {
+    image: PngImage
+    masks: MaskRegion[]
+} | {
+    error: any
+}
+
+type ImageDiff = {
+    diffPixels: number
+    diffImage: PngImage | null
+}
+
+function isMaskRegion(mask: MaskRegion | ArtifactTarget): mask is MaskRegion{
+    return typeof (mask as MaskRegion).width === 'number';
+}
+
+function toFileName(name: string){
+    return name.replace(/[^\w.-]+/g, '_');
+}
+
+function isMasked(x: number, y: number, masks: MaskRegion[]){
+    return masks.some(mask => x >= mask.x && x < mask.x + mask.width && y >= mask.y && y < mask.y + mask.height);
+}
+
+function compareImages(actual: PngImage, expected: PngImage, threshold: number, masks: MaskRegion[] = []): ImageDiff{
+    /*
+    * Masks are in image pixels here, masked pixels never differ and are blue on the diff image,
+    * differing ones are red over a faded copy of the actual image
+    * */
+    if (actual.width !== expected.width || actual.height !== expected.height){
+        return {diffPixels: actual.width * actual.height, diffImage: null};
+    }
+    const maxDistance = threshold * 255;
+    const diff = Buffer.alloc(actual.data.length);
+    let diffPixels = 0;
+    for (let y = 0; y < actual.height; y++){
+        for (let x = 0; x < actual.width; x++){
+            const i = (y * actual.width + x) * 4;
+            let color;
+            if (isMasked(x, y, masks)){
+                color = [80, 80, 255, 255];
+            } else if ([0, 1, 2, 3].some(c => Math.abs(actual.data[i + c] - expected.data[i + c]) > maxDistance)){
+                diffPixels++;
+                color = [255, 0, 0, 255];
+            } else {
+                const gray = 255 - (255 - (actual.data[i] + actual.data[i + 1] + actual.data[i + 2]) / 3) / 4;
+                color = [gray, gray, gray, 255];
+            }
+            diff.set(color, i);
+        }
+    }
+    return {diffPixels, diffImage: {width: actual.width, height: actual.height, data: diff}};
+}
+
+async function resolveMasks(masks: Array<MaskRegion | ArtifactTarget>, {origin}: ScreenshotCapture, image: PngImage){
+    /*
+    * Element masks follow the elements, the scale covers device pixel ratio
+    * */
+    const scale = origin.width ? image.width / origin.width : 1;
+    const regions: MaskRegion[] = [];
+    for (const mask of masks){
+        const region = isMaskRegion(mask) ? mask : await (await mask.getElement()).getRect();
+        const offset = isMaskRegion(mask) ? {x: 0, y: 0} : origin;
+        regions.push({
+            x: Math.floor((region.x - offset.x) * scale),
+            y: Math.floor((region.y - offset.y) * scale),
+            width: Math.ceil(region.width * scale),
+            height: Math.ceil(region.height * scale)
+        });
+    }
+    return regions;
+}
+
+class ScreenshotComparison {
+    /*
+    * Screenshot matches once two shots in a row are equal and the last one is within tolerance of the baseline.
+    * Every baseline in update mode and missing ones with createMissing are written from the first stable shot
+    * */
+    readonly name: string;
+    readonly baselinePath: string;
+    private readonly options: ScreenshotOptions;
+    private readonly events: DriverEvents;
+    private previous: PngImage | null = null;
+    private actual: PngImage | null = null;
+    private diff: PngImage | null = null;
+    constructor(name: string, browser: string, options: ScreenshotOptions, events: DriverEvents) {
+        this.name = name;
+        this.baselinePath = path.join(Config.baselineDir, browser, `${toFileName(name)}.png`);
+        this.options = options;
+        this.events = events;
+    }
+    private get writesBaseline(): boolean{
+        return Config.updateBaselines || (!!this.options.createMissing && !fs.existsSync(this.baselinePath));
+    }
+    async shoot(capture: () => Promise<ScreenshotCapture>, isRetriable: (e: any) => boolean): Promise<Shot>{
+        if (!this.writesBaseline && !fs.existsSync(this.baselinePath)){
+            throw new assert.AssertionError({
+                message: `Screenshot baseline ${this.baselinePath} is missing, ` +
+                    'run with --updateBaselines or pass createMissing: true to write it from this screenshot',
+                operator: 'expectToMatchScreenshot'
+            });
+        }
+        try {
+            const shot = await capture();
+            const image = decodePng(shot.screenshot);
+            return {image, masks: await resolveMasks(this.options.mask || [], shot, image)};
+        } catch (e) {
+            if (!isRetriable(e)) throw e;
+            return {error: e};
+        }
+    }
+    verify(shot: Shot){
+        if ('error' in shot){
+            /* stability is counted again from the next shot */
+            this.previous = null;
+            throw new assert.AssertionError({
+                message: `Screenshot is not taken: ${shot.error?.name}: ${String(shot.error?.message).split('\n')[0]}`,
+                operator: 'expectToMatchScreenshot'
+            });
+        }
+        const {image, masks} = shot;
+        const {threshold = 0.1, maxDiffPixels = 0, maxDiffRatio = 0} = this.options;
+        const previous = this.previous;
+        this.previous = image;
+        if (!previous || compareImages(image, previous, 0, masks).diffPixels > 0){
+            throw new assert.AssertionError({message: 'Screenshot is not stable yet, it changed since the previous shot'});
+        }
+        if (this.writesBaseline){
+            fs.mkdirSync(path.dirname(this.baselinePath), {recursive: true});
+            fs.writeFileSync(this.baselinePath, encodePng(image));
+            this.events.emit('baselineWritten', {name: this.name, path: this.baselinePath});
+            return;
+        }
+        const baseline = decodePng(fs.readFileSync(this.baselinePath));
+        const {diffPixels, diffImage} = compareImages(image, baseline, threshold, masks);
+        const allowed = Math.max(maxDiffPixels, Math.floor(maxDiffRatio * image.width * image.height));
+        if (diffPixels <= allowed){
+            return;
+        }
+        this.actual = image;
+        this.diff = diffImage;
+        throw new assert.AssertionError({
+            message: diffImage ?
+                `Screenshot differs from baseline in ${diffPixels} pixels ` +
+                `(${(100 * diffPixels / (image.width * image.height)).toFixed(2)}%), allowed ${allowed}` :
+                `Screenshot size ${image.width}x${image.height} differs from baseline ${baseline.width}x${baseline.height}`,
+            actual: diffPixels,
+            expected: allowed,
+            operator: 'expectToMatchScreenshot'
+        });
+    }
+    async writeFailureImages(error: any){
+        /*
+        * Images go next to the baseline unless artifactsDir is set
+        * */
+        if (!this.actual){
+            return error;
+        }
+        const directory = Config.artifactsDir || path.dirname(this.baselinePath);
+        const baseName = path.join(directory, path.basename(this.baselinePath, '.png'));
+        await fs.promises.mkdir(directory, {recursive: true});
+        await fs.promises.writeFile(`${baseName}.actual.png`, encodePng(this.actual));
+        error.message += `\n  Actual image: ${baseName}.actual.png`;
+        if (this.diff){
+            await fs.promises.writeFile(`${baseName}.diff.png`, encodePng(this.diff));
+            error.message += `\n  Diff image: ${baseName}.diff.png`;
+        }
+        return error;
+    }
+}
+
+export {
+    MaskRegion,
+    ScreenshotOptions,
+    ScreenshotCapture,
+    ScreenshotComparison,
+    compareImages
+}